@@ -5,11 +5,17 @@ import dotenv from "dotenv";
 import cookieParser from "cookie-parser";
 import userRoutes from "./routes";
 import { errorHandler } from './middleware/errorHandler';
+import { NotificationService } from './services/notification.service';
+import { BudgetAlertService } from './services/budgetAlert.service';
 
 dotenv.config();
 
 const app: Application = express();
 
+// ✅ Domain event listeners (project/party/transaction notifications, budget alerts)
+NotificationService.registerEventListeners();
+BudgetAlertService.registerEventListeners();
+
 // ✅ Middlewares
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -2,6 +2,9 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const parseList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
 interface Config {
   PORT: number;
   NODE_ENV: 'development' | 'production' | 'test';
@@ -14,6 +17,27 @@ interface Config {
   CLOUDINARY_CLOUD_NAME: string;
   CLOUDINARY_API_KEY: string | number;
   CLOUDINARY_API_SECRET: string;
+  PUSH_PROVIDER: 'fcm' | 'none';
+  FIREBASE_SERVICE_ACCOUNT_PATH: string;
+  DEFAULT_CURRENCY: string;
+  TWO_FACTOR_ISSUER: string;
+  TWO_FACTOR_ENCRYPTION_KEY: string;
+  ATTEMPT_STORE: 'mongo' | 'memory';
+  LOGIN_MAX_FAILURES: number;
+  LOGIN_IP_MAX_FAILURES: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  LOGIN_BACKOFF_SECONDS: number;
+  OTP_MAX_ATTEMPTS: number;
+  GOOGLE_AUTH_PROVIDER: 'oauth' | 'local';
+  GOOGLE_CLIENT_IDS: string[];
+  GOOGLE_HOSTED_DOMAINS: string[];
+  FACEBOOK_AUTH_PROVIDER: 'graph' | 'local';
+  FACEBOOK_APP_ID: string;
+  FACEBOOK_APP_SECRET: string;
+  ACCOUNT_DELETION_GRACE_DAYS: number;
+  PROJECT_INVITATION_EXPIRY_DAYS: number;
+  WORKSPACE_INVITATION_EXPIRY_DAYS: number;
+  PROJECT_TRASH_RETENTION_DAYS: number;
 }
 
 const config: Config = {
@@ -32,7 +56,51 @@ CLOUDINARY_API_SECRET: process.env.CLOUDINARY_API_SECRET || 'XY4jbQccUxzA4CFQDr5
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
   REFRESH_EXPIRES_IN: process.env.REFRESH_EXPIRES_IN || '7d',
 
-  CLIENT_URL: process.env.CLIENT_URL || 'http://localhost:3000'
+  CLIENT_URL: process.env.CLIENT_URL || 'http://localhost:3000',
+
+  // Push notifications ('none' disables them; 'fcm' without a service account file does too, with a warning)
+  PUSH_PROVIDER: (process.env.PUSH_PROVIDER as Config['PUSH_PROVIDER']) || 'fcm',
+  FIREBASE_SERVICE_ACCOUNT_PATH: process.env.FIREBASE_SERVICE_ACCOUNT_PATH || 'src/config/firebase-service-account.json',
+
+  // Currency used for new projects/users and as pivot for cross rates
+  DEFAULT_CURRENCY: (process.env.DEFAULT_CURRENCY || 'USD').toUpperCase(),
+
+  // TOTP two-factor authentication (issuer is shown in authenticator apps)
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'BudgetSaver',
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || 'default-two-factor-key',
+
+  // Brute-force protection ('memory' keeps attempt counters in the process, e.g. for tests)
+  ATTEMPT_STORE: (process.env.ATTEMPT_STORE as Config['ATTEMPT_STORE']) || 'mongo',
+  LOGIN_MAX_FAILURES: parseInt(process.env.LOGIN_MAX_FAILURES || '5'),
+  LOGIN_IP_MAX_FAILURES: parseInt(process.env.LOGIN_IP_MAX_FAILURES || '50'),
+  LOGIN_LOCKOUT_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+  LOGIN_BACKOFF_SECONDS: parseInt(process.env.LOGIN_BACKOFF_SECONDS || '1'),
+  OTP_MAX_ATTEMPTS: parseInt(process.env.OTP_MAX_ATTEMPTS || '3'),
+
+  // Google login: comma separated OAuth client IDs of the web, iOS and Android apps, and
+  // optionally the Workspace domains allowed to sign in ('local' accepts only tokens registered in memory)
+  GOOGLE_AUTH_PROVIDER: (process.env.GOOGLE_AUTH_PROVIDER as Config['GOOGLE_AUTH_PROVIDER']) || 'oauth',
+  GOOGLE_CLIENT_IDS: parseList(
+    process.env.GOOGLE_CLIENT_IDS || '914626190076-hb3496enlino79uhhi9okc3liovs4qc2.apps.googleusercontent.com'
+  ),
+  GOOGLE_HOSTED_DOMAINS: parseList(process.env.GOOGLE_HOSTED_DOMAINS || '').map(domain => domain.toLowerCase()),
+
+  // Facebook login ('local' accepts only tokens registered in memory, for tests)
+  FACEBOOK_AUTH_PROVIDER: (process.env.FACEBOOK_AUTH_PROVIDER as Config['FACEBOOK_AUTH_PROVIDER']) || 'graph',
+  FACEBOOK_APP_ID: process.env.FACEBOOK_APP_ID || '',
+  FACEBOOK_APP_SECRET: process.env.FACEBOOK_APP_SECRET || '',
+
+  // Days between a user's delete request and the purge of their data
+  ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14'),
+
+  // Days a project invitation can be accepted
+  PROJECT_INVITATION_EXPIRY_DAYS: parseInt(process.env.PROJECT_INVITATION_EXPIRY_DAYS || '7'),
+
+  // Days a workspace invitation can be accepted
+  WORKSPACE_INVITATION_EXPIRY_DAYS: parseInt(process.env.WORKSPACE_INVITATION_EXPIRY_DAYS || '7'),
+
+  // Days a deleted project stays in the trash before it is purged
+  PROJECT_TRASH_RETENTION_DAYS: parseInt(process.env.PROJECT_TRASH_RETENTION_DAYS || '30')
 
 
 
@@ -0,0 +1,21 @@
+// firebase.ts
+import fs from "fs";
+import admin from "firebase-admin";
+import { config } from "./config";
+
+let firebaseApp: admin.app.App | null = null;
+
+// ✅ Initialize Firebase Admin lazily from the service account file
+export const getFirebaseApp = (): admin.app.App => {
+  if (!firebaseApp) {
+    const serviceAccount = JSON.parse(
+      fs.readFileSync(config.FIREBASE_SERVICE_ACCOUNT_PATH, "utf8")
+    );
+
+    firebaseApp = admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+  }
+
+  return firebaseApp;
+};
@@ -0,0 +1,128 @@
+// src/controllers/activityLogController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { ActivityLogService } from '../services/activityLog.service';
+import { ErrorResponse } from '../utils/errorResponse';
+
+const MAX_LIMIT = 100;
+
+// Build activity log filters shared by user and admin endpoints
+const buildActivityLogFilters = (query: Request['query']): any => {
+  const { resource, resourceId, action, status, startDate, endDate } = query;
+  const filters: any = {};
+
+  if (resource) {
+    filters.resource = resource;
+  }
+
+  if (resourceId) {
+    if (!ObjectId.isValid(resourceId as string)) {
+      throw new ErrorResponse('Invalid resource ID format', 400);
+    }
+    filters.resourceId = new ObjectId(resourceId as string);
+  }
+
+  if (action) {
+    filters.action = action;
+  }
+
+  if (status && ['success', 'failure'].includes(status as string)) {
+    filters.status = status;
+  }
+
+  if (startDate || endDate) {
+    filters.createdAt = {};
+    if (startDate) {
+      const start = new Date(startDate as string);
+      if (isNaN(start.getTime())) {
+        throw new ErrorResponse('Invalid start date format', 400);
+      }
+      filters.createdAt.$gte = start;
+    }
+    if (endDate) {
+      const end = new Date(endDate as string);
+      if (isNaN(end.getTime())) {
+        throw new ErrorResponse('Invalid end date format', 400);
+      }
+      filters.createdAt.$lte = end;
+    }
+  }
+
+  return filters;
+};
+
+// Get activity logs of logged-in user
+export const getMyActivityLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const { page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), MAX_LIMIT);
+
+    const { logs, total } = await ActivityLogService.getUserActivityLogs(
+      userId.toString(),
+      pageNum,
+      limitNum,
+      buildActivityLogFilters(req.query)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: logs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get activity logs of all users (admin only)
+export const getAllActivityLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, page = '1', limit = '50' } = req.query;
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), MAX_LIMIT);
+
+    const filters = buildActivityLogFilters(req.query);
+
+    if (userId) {
+      if (!ObjectId.isValid(userId as string)) {
+        return next(new ErrorResponse('Invalid user ID format', 400));
+      }
+      filters.userId = new ObjectId(userId as string);
+    }
+
+    const { logs, total } = await ActivityLogService.getActivityLogs(filters, pageNum, limitNum);
+
+    res.status(200).json({
+      success: true,
+      data: logs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
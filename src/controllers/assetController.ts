@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { uploadFileToCloudinary } from "../utils/uploadUtils";
-// import { createNotification } from './notificationController';
-import { Types } from 'mongoose';
+import { NotificationService } from "../services/notification.service";
+import { logger } from "../utils/logger";
 
 // ✅ Image Upload Controller
 export const uploadSngImage = async (
@@ -10,7 +10,7 @@ export const uploadSngImage = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const userId = (req as any).user.id; // Get user ID from middleware
+    const userId = req.user!.id; // Get user ID from middleware
 
     // ✅ Check if a file is uploaded
     if (!req.file) {
@@ -21,12 +21,14 @@ export const uploadSngImage = async (
     // ✅ Upload the file to Cloudinary
     const { url } = await uploadFileToCloudinary(req.file.buffer, "images");
 
-    // ✅ Create success notification for the user
-    // await createNotification(
-    //   new Types.ObjectId(userId),
-    //   "Your profile image has been updated successfully!",
-    //   "success"
-    // );
+    // ✅ Create success notification for the user; the upload succeeded either way
+    NotificationService.createNotification({
+      recipient: userId,
+      title: "Profile image updated",
+      message: "Your profile image has been updated successfully!",
+      entityType: "SYSTEM",
+      type: "SUCCESS",
+    }).catch((notifyError) => logger.error("Notification Error:", notifyError));
 
     res.json({ 
       msg: "File uploaded successfully", 
@@ -34,14 +36,16 @@ export const uploadSngImage = async (
       success: true 
     });
   } catch (err) {
-    console.error("File Upload Error:", err);
+    logger.error("File Upload Error:", err);
     
     // ✅ Create error notification for the user
-    // await createNotification(
-    //   new Types.ObjectId((req as any).user.id),
-    //   "Failed to update profile image. Please try again.",
-    //   "error"
-    // );
+    NotificationService.createNotification({
+      recipient: req.user!.id,
+      title: "Profile image upload failed",
+      message: "Failed to update profile image. Please try again.",
+      entityType: "SYSTEM",
+      type: "WARNING",
+    }).catch((notifyError) => logger.error("Notification Error:", notifyError));
 
     next(err);
   }
@@ -4,8 +4,16 @@ import User, { IUser, IUserDocument } from "../models/user.model";
 import Auth, { IAuth } from "../models/auth.model";
 import { createOTP, hashOTP, verifyOTP } from "../utils/createOTP";
 import { sendEmail } from "../utils/sendEmail";
-import { generateToken } from "../utils/authToken";
-import {verifyGoogleToken} from "../utils/GoogleOAuth";
+import { TokenService } from "../services/token.service";
+import { SessionService, ClientInfo } from "../services/session.service";
+import { TwoFactorService } from "../services/twoFactor.service";
+import { BruteForceService, AttemptSubject } from "../services/bruteForce.service";
+import { generateChallengeToken, verifyChallengeToken } from "../utils/authToken";
+import { IdentityService, SocialProfile, PROVIDER_NAMES } from "../services/identity.service";
+import { UserStatusService } from "../services/userStatus.service";
+import { ErrorResponse } from "../utils/errorResponse";
+import { setAuditContext } from "../middleware/auditMiddleware";
+import { config } from "../config/config";
 
 interface IAuthRequest extends Request {
   body: {
@@ -18,12 +26,28 @@ interface IAuthRequest extends Request {
     providerId?: string;
     phone?: string;
     profileImage?: string;
+    deviceName?: string;
+    platform?: "ios" | "android" | "web" | "unknown";
+    deviceToken?: string;
   };
 }
 
 interface IGoogleAuthRequest extends Request {
   body: {
     idToken: string;
+    deviceName?: string;
+    platform?: "ios" | "android" | "web" | "unknown";
+    deviceToken?: string;
+  };
+}
+
+interface IFacebookAuthRequest extends Request {
+  body: {
+    accessToken: string;
+    photo?: string;
+    deviceName?: string;
+    platform?: "ios" | "android" | "web" | "unknown";
+    deviceToken?: string;
   };
 }
 
@@ -32,6 +56,8 @@ declare module "express-serve-static-core" {
     user?: {
       id: Types.ObjectId;
       role: string;
+      sessionId?: string;
+      workspaceId?: Types.ObjectId | null;
     };
   }
 }
@@ -43,88 +69,143 @@ interface IGoogleSocialData {
 
 const OTP_EXPIRY_MINUTES = 10;
 
+// With 2FA enabled the login stops after the first factor and returns a short-lived
+// challenge token; the client finishes the login at /auth/2fa/verify
+const sendTwoFactorChallenge = async (res: Response, user: IUserDocument): Promise<boolean> => {
+  const auth = await TwoFactorService.findAuthForUser(user._id);
+  if (!auth?.twoFactor?.enabled) {
+    return false;
+  }
+
+  res.json({
+    message: "Two-factor authentication code required",
+    success: true,
+    twoFactorRequired: true,
+    challengeToken: generateChallengeToken({ id: user._id, authId: auth._id as Types.ObjectId }),
+  });
+  return true;
+};
+
+// Device details sent by the client at login are stored on the session
+const getClientInfo = (req: Request): ClientInfo => ({
+  ipAddress: req.ip,
+  userAgent: req.get("user-agent"),
+  deviceName: typeof req.body?.deviceName === "string" ? req.body.deviceName.trim().slice(0, 100) : undefined,
+  platform: req.body?.platform,
+  deviceToken: typeof req.body?.deviceToken === "string" ? req.body.deviceToken : undefined,
+});
+
+// Answer 429 while the account or IP is backing off after failures or locked out
+const rejectIfThrottled = async (res: Response, attempt: AttemptSubject): Promise<boolean> => {
+  const retryAfter = await BruteForceService.getRetryAfter(attempt);
+  if (retryAfter === 0) {
+    return false;
+  }
+
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    message: `Too many failed attempts. Try again in ${retryAfter} seconds.`,
+    retryAfter,
+  });
+  return true;
+};
+
+// Answer 403 with an error code when the account is deactivated or suspended
+const rejectIfInactive = async (res: Response, user: IUserDocument): Promise<boolean> => {
+  const inactive = await UserStatusService.checkAccess(user);
+  if (!inactive) {
+    return false;
+  }
+
+  res.status(inactive.statusCode).json({
+    success: false,
+    message: inactive.message,
+    code: inactive.errorCode,
+  });
+  return true;
+};
+
+// Count a wrong guess against the current OTP; once OTP_MAX_ATTEMPTS is reached the
+// OTP is discarded and a new one has to be requested. Returns true in that case.
+const recordInvalidOTP = async (auth: IAuth): Promise<boolean> => {
+  auth.otpAttempts = (auth.otpAttempts || 0) + 1;
+  const exhausted = auth.otpAttempts >= config.OTP_MAX_ATTEMPTS;
+  if (exhausted) {
+    auth.otp = undefined;
+    auth.otpExpiresAt = undefined;
+  }
+  await auth.save();
+  return exhausted;
+};
+
+// Verify a Google ID token and find or create its user
+// (merge rules are in IdentityService.resolveSocialSignIn)
 export const createSocialUserAndAuth = async (
-  data: IGoogleSocialData,
-  userId?: Types.ObjectId
-): Promise<{ user: IUserDocument; auth: IAuth | null }> => {
+  data: IGoogleSocialData
+): Promise<{ user: IUserDocument; auth: IAuth }> => {
+  const profile = await IdentityService.verifySocialToken("google", data.idToken);
+  return IdentityService.resolveSocialSignIn(profile, data.photo);
+};
+
+// Sign in (or up) with a verified social profile and answer like a password login
+const completeSocialLogin = async (
+  req: Request,
+  res: Response,
+  profile: SocialProfile,
+  photo?: string
+): Promise<void> => {
+  const providerName = PROVIDER_NAMES[profile.provider];
+
   try {
-    // Use your verifyGoogleToken function
-    const { email, name = "Google User", picture = "", googleId } = await verifyGoogleToken(data.idToken);
-
-    if (!email || !googleId) {
-      throw new Error("Invalid Google ID Token: email or googleId missing");
-    }
-
-    // 1️⃣ Find or create user
-    let user: IUserDocument | null = null;
-
-    if (userId) {
-      user = await User.findById(userId);
-    } else {
-      user = await User.findOne({ email });
-      if (!user) {
-        user = await User.create({
-          name: name || "Google User",
-          email,
-          role: "agent",
-          profileImage: data.photo || picture,
-        });
-      }
+    const { user } = await IdentityService.resolveSocialSignIn(profile, photo);
+    setAuditContext(res, { userId: user._id, resourceId: user._id });
+
+    if (await rejectIfInactive(res, user)) {
+      return;
     }
 
-    if (!user) throw new Error("User profile creation failed unexpectedly.");
+    if (await sendTwoFactorChallenge(res, user)) {
+      return;
+    }
 
-    // 2️⃣ Check if auth record already exists for this user
-    let existingAuth = await Auth.findOne({ user: user._id });
+    const { token, refreshToken, expiresAt } = await TokenService.issueTokens(user, getClientInfo(req));
 
-    if (existingAuth) {
-      // If user has existing auth
-      if (existingAuth.provider === "google") {
-        // Already a Google auth, update providerId if needed
-        if (existingAuth.providerId !== googleId) {
-          existingAuth.providerId = googleId;
-          await existingAuth.save();
-        }
-      } else {
-        // User has email auth, check if we should allow Google login
-        // For security, you might want to prevent this or merge accounts
-        throw new Error("Email already registered with different login method");
+    res.status(200).json({
+      success: true,
+      message: `Login successful via ${providerName}`,
+      token,
+      refreshToken,
+      expiresAt,
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        photo: user.profileImage,
+        provider: profile.provider
       }
-      return { user, auth: existingAuth };
-    } else {
-      // Create new Google auth record
-      const auth = await Auth.create({
-        user: user._id,
-        provider: "google",
-        providerId: googleId,
-        isVerified: true,
-      });
-      return { user, auth };
-    }
+    });
   } catch (error: any) {
-    console.error("createSocialUserAndAuth error:", error);
-    
-    // Handle duplicate key error
+    console.error(`${providerName} Auth Error:`, error.message);
+
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+
     if (error.code === 11000 || error.codeName === 'DuplicateKey') {
-      console.log("Duplicate key error detected, finding existing record...");
-      
-      // Try to find existing auth record
-      try {
-        const { email } = await verifyGoogleToken(data.idToken);
-        const user = await User.findOne({ email });
-        if (user) {
-          const existingAuth = await Auth.findOne({ user: user._id });
-          if (existingAuth) {
-            console.log("Found existing auth record:", existingAuth._id);
-            return { user, auth: existingAuth };
-          }
-        }
-      } catch (findError) {
-        console.error("Error finding existing record:", findError);
-      }
+      res.status(409).json({ 
+        success: false, 
+        message: "Account already exists. Please try logging in again." 
+      });
+      return;
     }
-    
-    throw error;
+
+    res.status(500).json({ 
+      success: false, 
+      message: `Failed to authenticate with ${providerName}. Please try again.`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
   }
 };
 
@@ -156,6 +237,7 @@ export const registerUser = async (
     }
     
     const newUser = await User.create({ name, email, role: "agent" }); // Added role
+    setAuditContext(res, { userId: newUser._id, resourceId: newUser._id, after: newUser });
     const otp = createOTP();
     const hashedOTP = hashOTP(otp);
 
@@ -218,11 +300,19 @@ export const verifyUserOTP = async (
       return;
     }
 
+    const attempt: AttemptSubject = { scope: "otp", account: String(email), ipAddress: req.ip };
+    if (await rejectIfThrottled(res, attempt)) {
+      return;
+    }
+
     const user = await User.findOne({ email });
     if (!user) {
+      await BruteForceService.recordFailure(attempt);
       res.status(404).json({ message: "User not found" });
       return;
     }
+    setAuditContext(res, { userId: user._id, resourceId: user._id });
+    attempt.userId = user._id;
 
     const auth = await Auth.findOne({ user: user._id, provider: "email" });
     if (!auth) {
@@ -245,6 +335,7 @@ export const verifyUserOTP = async (
       const hashedOTP = hashOTP(newOtp);
       auth.otp = hashedOTP;
       auth.otpExpiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
+      auth.otpAttempts = 0;
       await auth.save();
       
       // Send new OTP
@@ -267,6 +358,11 @@ export const verifyUserOTP = async (
 
     const isValid = verifyOTP(otp, auth.otp);
     if (!isValid) {
+      await BruteForceService.recordFailure(attempt);
+      if (await recordInvalidOTP(auth)) {
+        res.status(400).json({ message: "Too many invalid attempts. Please request a new OTP." });
+        return;
+      }
       res.status(400).json({ message: "Invalid OTP" });
       return;
     }
@@ -274,13 +370,21 @@ export const verifyUserOTP = async (
     auth.isVerified = true;
     auth.otp = undefined;
     auth.otpExpiresAt = undefined;
+    auth.otpAttempts = 0;
     await auth.save();
+    await BruteForceService.recordSuccess(attempt);
 
-    const token = generateToken({ id: user._id, role: user.role });
+    if (await rejectIfInactive(res, user)) {
+      return;
+    }
+
+    const { token, refreshToken, expiresAt } = await TokenService.issueTokens(user, getClientInfo(req));
 
     res.json({
       message: "Email verified successfully",
       token,
+      refreshToken,
+      expiresAt,
       success: true,
       user: {
         id: user._id,
@@ -308,11 +412,19 @@ export const loginUser = async (
       return;
     }
 
+    const attempt: AttemptSubject = { scope: "login", account: String(email), ipAddress: req.ip };
+    if (await rejectIfThrottled(res, attempt)) {
+      return;
+    }
+
     const user = await User.findOne({ email });
     if (!user) {
+      await BruteForceService.recordFailure(attempt);
       res.status(401).json({ message: "Invalid email or password" });
       return;
     }
+    setAuditContext(res, { userId: user._id, resourceId: user._id });
+    attempt.userId = user._id;
 
     // Select password field explicitly
     const auth = await Auth.findOne({
@@ -321,6 +433,7 @@ export const loginUser = async (
     }).select("+password");
 
     if (!auth) {
+      await BruteForceService.recordFailure(attempt);
       res.status(401).json({ message: "Invalid email or password" });
       return;
     }
@@ -332,16 +445,28 @@ export const loginUser = async (
 
     const match = await auth.comparePassword(password);
     if (!match) {
+      await BruteForceService.recordFailure(attempt);
       res.status(401).json({ message: "Invalid email or password" });
       return;
     }
+    await BruteForceService.recordSuccess(attempt);
 
-    const token = generateToken({ id: user._id, role: user.role });
+    if (await rejectIfInactive(res, user)) {
+      return;
+    }
+
+    if (await sendTwoFactorChallenge(res, user)) {
+      return;
+    }
+
+    const { token, refreshToken, expiresAt } = await TokenService.issueTokens(user, getClientInfo(req));
 
     res.json({
       message: "Login successful",
       success: true,
       token,
+      refreshToken,
+      expiresAt,
       user: {
         id: user._id,
         name: user.name,
@@ -373,6 +498,10 @@ export const forgotPassword = async (
       ? await Auth.findOne({ user: user._id, provider: "email" })
       : null;
 
+    if (user) {
+      setAuditContext(res, { userId: user._id, resourceId: user._id });
+    }
+
     // Always return the same message for security (prevent email enumeration)
     if (!user || !auth) {
       res.json({
@@ -386,6 +515,7 @@ export const forgotPassword = async (
     const hashedOTP = hashOTP(otp);
     auth.otp = hashedOTP;
     auth.otpExpiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
+    auth.otpAttempts = 0;
     await auth.save();
     
     try {
@@ -422,6 +552,11 @@ export const resetPassword = async (
       res.status(400).json({ message: "Passwords do not match" });
       return;
     }
+
+    const attempt: AttemptSubject = { scope: "otp", account: String(email), ipAddress: req.ip };
+    if (await rejectIfThrottled(res, attempt)) {
+      return;
+    }
     
     const user = await User.findOne({ email });
     const auth = user
@@ -429,21 +564,30 @@ export const resetPassword = async (
       : null;
       
     if (!user || !auth) {
+      await BruteForceService.recordFailure(attempt);
       res.status(404).json({ message: "User not found." });
       return;
     }
+    setAuditContext(res, { userId: user._id, resourceId: user._id });
+    attempt.userId = user._id;
     
     if (
       !auth.otp ||
       !auth.otpExpiresAt ||
       auth.otpExpiresAt.getTime() < Date.now()
     ) {
+      await BruteForceService.recordFailure(attempt);
       res.status(400).json({ message: "Invalid or expired OTP." });
       return;
     }
     
     const isValid = verifyOTP(otp, auth.otp);
     if (!isValid) {
+      await BruteForceService.recordFailure(attempt);
+      if (await recordInvalidOTP(auth)) {
+        res.status(400).json({ message: "Too many invalid attempts. Please request a new OTP." });
+        return;
+      }
       res.status(400).json({ message: "Invalid OTP" });
       return;
     }
@@ -452,14 +596,29 @@ export const resetPassword = async (
     (auth as any).confirmPassword = confirmPassword;
     auth.otp = undefined;
     auth.otpExpiresAt = undefined;
+    auth.otpAttempts = 0;
     await auth.save();
+    await BruteForceService.recordSuccess(attempt);
+
+    // Sessions opened with the old password are no longer trusted
+    await SessionService.revokeAllForUser(user._id, "password_reset");
+
+    if (await rejectIfInactive(res, user)) {
+      return;
+    }
     
-    const token = generateToken({ id: user._id, role: user.role });
+    if (await sendTwoFactorChallenge(res, user)) {
+      return;
+    }
+
+    const { token, refreshToken, expiresAt } = await TokenService.issueTokens(user, getClientInfo(req));
 
     res.json({
       message: "Password reset successful. You are now logged in.",
       success: true,
       token,
+      refreshToken,
+      expiresAt,
       user: {
         id: user._id,
         name: user.name,
@@ -481,215 +640,60 @@ export const resetPassword = async (
   }
 };
 
-export const createOrUpdateGoogleAuth = async (
-  data: IGoogleSocialData,
-  userId?: Types.ObjectId
-): Promise<{ user: IUserDocument; auth: IAuth }> => {
-  const { email, name = "Google User", picture = "", googleId } = await verifyGoogleToken(data.idToken);
-
-  if (!email || !googleId) {
-    throw new Error("Invalid Google ID Token: email or googleId missing");
-  }
-
-  // Find or create user
-  let user: IUserDocument | null = null;
-
-  if (userId) {
-    user = await User.findById(userId);
-  } else {
-    user = await User.findOne({ email });
-    if (!user) {
-      user = await User.create({
-        name: name || "Google User",
-        email,
-        role: "agent",
-        profileImage: data.photo || picture,
-      });
-    }
-  }
-
-  if (!user) throw new Error("User profile creation failed unexpectedly.");
-
-  // Use findOneAndUpdate with upsert to avoid duplicate key errors
-  const auth = await Auth.findOneAndUpdate(
-    { 
-      user: user._id,
-      provider: "google"
-    },
-    {
-      providerId: googleId,
-      isVerified: true
-    },
-    {
-      upsert: true,
-      new: true,
-      setDefaultsOnInsert: true
-    }
-  );
-
-  return { user, auth };
-};
-
 export const googleAuthCallback = async (
   req: IGoogleAuthRequest, 
   res: Response
 ): Promise<void> => {
-  try {
-    const { idToken } = req.body;
+  const { idToken } = req.body;
 
-    if (!idToken) {
-      res.status(400).json({ success: false, message: "Missing Google ID token." });
-      return;
-    }
+  if (!idToken) {
+    res.status(400).json({ success: false, message: "Missing Google ID token." });
+    return;
+  }
 
-    // First verify the token to get user info
-    let googleUser;
-    try {
-      googleUser = await verifyGoogleToken(idToken);
-      console.log("Google user verified:", {
-        email: googleUser.email,
-        name: googleUser.name,
-        googleId: googleUser.googleId
-      });
-    } catch (verifyError) {
-      console.error("Token verification failed:", verifyError);
-      res.status(401).json({ 
-        success: false, 
-        message: "Invalid Google token. Please try again." 
-      });
+  let profile: SocialProfile;
+  try {
+    profile = await IdentityService.verifySocialToken("google", idToken);
+  } catch (verifyError) {
+    console.error("Token verification failed:", verifyError);
+    if (verifyError instanceof ErrorResponse) {
+      res.status(verifyError.statusCode).json({ success: false, message: verifyError.message });
       return;
     }
+    res.status(401).json({ 
+      success: false, 
+      message: "Invalid Google token. Please try again." 
+    });
+    return;
+  }
 
-    // Check if user already exists with this email
-    const existingUser = await User.findOne({ email: googleUser.email });
-    console.log("Existing User found:", existingUser?._id);
-
-    if (existingUser) {
-      // Check if auth record exists for this user
-      const existingAuth = await Auth.findOne({ user: existingUser._id });
-      console.log("Existing Auth found:", existingAuth);
-      
-      if (existingAuth) {
-        // User has existing auth record
-        if (existingAuth.provider !== "google") {
-          // User registered with email, not Google
-          res.status(409).json({ 
-            success: false, 
-            message: "Email already registered with email/password. Please login with email or use forgot password." 
-          });
-          return;
-        }
-        
-        // User already has Google auth, generate token
-        const token = generateToken({ id: existingUser._id, role: existingUser.role });
-        
-        res.status(200).json({
-          success: true,
-          message: "Login successful via Google",
-          token,
-          user: {
-            id: existingUser._id,
-            name: existingUser.name,
-            email: existingUser.email,
-            role: existingUser.role,
-            photo: existingUser.profileImage,
-            provider: "google"
-          }
-        });
-        return;
-      }
-    }
+  await completeSocialLogin(req, res, profile);
+};
 
-    // Create or update Google auth (use the safer version)
-    const { user, auth } = await createOrUpdateGoogleAuth({ idToken });
-    
-    if (!user) {
-      res.status(500).json({ success: false, message: "User creation failed." });
-      return;
-    }
+export const facebookAuthCallback = async (
+  req: IFacebookAuthRequest,
+  res: Response
+): Promise<void> => {
+  const { accessToken, photo } = req.body;
 
-    const token = generateToken({ id: user._id, role: user.role });
+  if (!accessToken) {
+    res.status(400).json({ success: false, message: "Missing Facebook access token." });
+    return;
+  }
 
-    res.status(200).json({
-      success: true,
-      message: "Login successful via Google",
-      token,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        photo: user.profileImage,
-        provider: auth?.provider || "google"
-      }
-    });
-  } catch (error: any) {
-    console.error("Google Auth Error Details:", {
-      message: error.message,
-      code: error.code,
-      codeName: error.codeName,
-      stack: error.stack
-    });
-    
-    // Handle specific errors
-    if (error.message === "Email already registered with different login method") {
-      res.status(409).json({ 
-        success: false, 
-        message: "Email already registered with email/password. Please login with email instead." 
-      });
-      return;
-    }
-    
-    if (error.message.includes("Invalid Google token") || error.message.includes("Invalid Google ID Token")) {
-      res.status(401).json({ success: false, message: "Invalid Google token." });
-      return;
-    }
-    
-    // Handle duplicate key error
-    if (error.code === 11000 || error.codeName === 'DuplicateKey') {
-      console.log("Attempting to recover from duplicate key error...");
-      
-      // Try recovery - verify token and find existing user
-      try {
-        const googleUser = await verifyGoogleToken(req.body.idToken);
-        const user = await User.findOne({ email: googleUser.email });
-        
-        if (user) {
-          const auth = await Auth.findOne({ user: user._id });
-          const token = generateToken({ id: user._id, role: user.role });
-          
-          res.status(200).json({
-            success: true,
-            message: "Login successful (account recovered)",
-            token,
-            user: {
-              id: user._id,
-              name: user.name,
-              email: user.email,
-              role: user.role,
-              photo: user.profileImage,
-              provider: auth?.provider || "google"
-            }
-          });
-          return;
-        }
-      } catch (recoveryError) {
-        console.error("Recovery failed:", recoveryError);
-      }
-      
-      res.status(409).json({ 
-        success: false, 
-        message: "Account already exists. Please try logging in again." 
-      });
-      return;
-    }
-    
-    res.status(500).json({ 
-      success: false, 
-      message: "Failed to authenticate with Google. Please try again.",
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+  let profile: SocialProfile;
+  try {
+    profile = await IdentityService.verifySocialToken("facebook", accessToken);
+  } catch (verifyError) {
+    console.error("Facebook token verification failed:", verifyError);
+    res.status(401).json({
+      success: false,
+      message: "Invalid Facebook token. Please try again."
     });
+    return;
   }
+
+  await completeSocialLogin(req, res, profile, photo);
 };
 
 export const verifyUserAuth = async (
@@ -706,7 +710,8 @@ export const verifyUserAuth = async (
     }
 
     const user = await User.findById(req.user.id);
-    const auth = await Auth.findOne({ user: req.user.id });
+    const identities = await IdentityService.getIdentities(req.user.id);
+    const auth = identities.find(identity => identity.provider === "email") || identities[0];
 
     if (!user || !auth) {
       res.status(401).json({
@@ -726,6 +731,7 @@ export const verifyUserAuth = async (
         role: user.role,
         isVerified: auth.isVerified,
         provider: auth.provider,
+        providers: identities.map(identity => identity.provider),
       },
     });
   } catch (error: any) {
@@ -769,6 +775,7 @@ export const resendOTP = async (
     const hashedOTP = hashOTP(otp);
     auth.otp = hashedOTP;
     auth.otpExpiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
+    auth.otpAttempts = 0;
     await auth.save();
 
     try {
@@ -789,4 +796,163 @@ export const resendOTP = async (
     console.error("Resend OTP error:", err);
     res.status(500).json({ message: "Internal Server Error" });
   }
-};
\ No newline at end of file
+};
+
+// Exchange a refresh token for a new access/refresh token pair (rotation)
+export const refreshAccessToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({ message: "Refresh token is required" });
+      return;
+    }
+
+    const tokens = await TokenService.rotateRefreshToken(refreshToken, getClientInfo(req));
+
+    res.json({
+      message: "Token refreshed successfully",
+      success: true,
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+    });
+  } catch (err: any) {
+    if (err.statusCode === 401 || err.statusCode === 403) {
+      res.status(err.statusCode).json({ message: err.message, code: err.errorCode, logout: true });
+      return;
+    }
+    console.error("Refresh token error:", err);
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+// Revoke the session of the given refresh token
+export const logoutUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({ message: "Refresh token is required" });
+      return;
+    }
+
+    // Unknown tokens are ignored so logout is always safe to retry
+    const session = await TokenService.revokeByRefreshToken(refreshToken);
+    if (session) {
+      setAuditContext(res, { userId: session.userId, resourceId: session.userId });
+    }
+
+    res.json({ message: "Logged out successfully", success: true });
+  } catch (err: any) {
+    console.error("Logout error:", err);
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+// Revoke every session of the current user
+export const logoutAllSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user?.id) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const revoked = await SessionService.revokeAllForUser(req.user.id, "logout_all");
+    setAuditContext(res, { resourceId: req.user.id, description: `auth logout_all (${revoked} sessions revoked)` });
+
+    res.json({
+      message: "Logged out from all sessions",
+      success: true,
+      revokedSessions: revoked,
+    });
+  } catch (err: any) {
+    console.error("Logout all error:", err);
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+// Second login step: exchange a challenge token and a TOTP/recovery code for tokens
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ message: "Challenge token and an authentication or recovery code are required" });
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = await verifyChallengeToken(challengeToken);
+    } catch (error) {
+      res.status(401).json({ message: "Login challenge expired. Please log in again." });
+      return;
+    }
+
+    const user = await User.findById(challenge.id);
+    if (!user) {
+      res.status(401).json({ message: "Login challenge expired. Please log in again." });
+      return;
+    }
+    setAuditContext(res, { userId: user._id, resourceId: user._id });
+
+    const attempt: AttemptSubject = {
+      scope: "two_factor",
+      account: user._id.toString(),
+      ipAddress: req.ip,
+      userId: user._id,
+    };
+    if (await rejectIfThrottled(res, attempt)) {
+      return;
+    }
+
+    const verified = await TwoFactorService.verify(challenge.authId, { code, recoveryCode });
+    if (!verified) {
+      await BruteForceService.recordFailure(attempt);
+      res.status(401).json({ message: "Invalid authentication code" });
+      return;
+    }
+    await BruteForceService.recordSuccess(attempt);
+
+    if (await rejectIfInactive(res, user)) {
+      return;
+    }
+
+    const { token, refreshToken, expiresAt } = await TokenService.issueTokens(user, getClientInfo(req));
+
+    res.json({
+      message: "Login successful",
+      success: true,
+      token,
+      refreshToken,
+      expiresAt,
+      remainingRecoveryCodes: verified.remainingRecoveryCodes,
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
+    });
+  } catch (err: any) {
+    console.error("Two-factor verification error:", err);
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
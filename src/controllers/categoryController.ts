@@ -0,0 +1,274 @@
+// src/controllers/categoryController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import Category, { ICategory } from '../models/category.model';
+import Project from '../models/project.model';
+import Transaction from '../models/transaction.model';
+import { CategoryService } from '../services/category.service';
+import { ProjectAccessService, ProjectActor } from '../services/projectAccess.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+// Category the user may manage: their own user-level category or one on a project they may edit
+const findManageableCategory = async (id: string, actor: ProjectActor): Promise<ICategory | null> => {
+  const category = await Category.findById(id);
+  if (!category) {
+    return null;
+  }
+
+  if (category.project) {
+    const project = await Project.findById(category.project).select('createdBy workspace deletedAt');
+    // Categories of projects in the trash are hidden with them
+    const role = project && !project.deletedAt ? await ProjectAccessService.getRole(project, actor) : null;
+    return ProjectAccessService.can(role, 'write') ? category : null;
+  }
+
+  return category.createdBy.equals(actor.id) ? category : null;
+};
+
+// Nest a flat category list under their parents
+const buildTree = (categories: any[]): any[] => {
+  const byId = new Map<string, any>();
+  categories.forEach((category) => {
+    byId.set(category._id.toString(), { ...category, children: [] });
+  });
+
+  const roots: any[] = [];
+  byId.forEach((category) => {
+    const parent = category.parent ? byId.get(category.parent.toString()) : null;
+    if (parent) {
+      parent.children.push(category);
+    } else {
+      roots.push(category);
+    }
+  });
+
+  return roots;
+};
+
+// Get categories available to the user (optionally including a project's categories)
+export const getCategories = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { project, tree } = req.query;
+
+    if (project) {
+      if (!ObjectId.isValid(project as string)) {
+        return next(new ErrorResponse('Invalid project ID format', 400));
+      }
+
+      await ProjectAccessService.authorize(project as string, req.user, 'read');
+    }
+
+    const categories = await Category.find(
+      CategoryService.getScopeFilter(userId!, project as string | undefined)
+    )
+      .sort({ name: 1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: tree === 'true' ? buildTree(categories) : categories
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a user-level or project-level category
+export const createCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { name, description, color, parent, project } = req.body;
+
+    if (!name?.trim()) {
+      return next(new ErrorResponse('Name is required', 400));
+    }
+
+    if (project) {
+      if (!ObjectId.isValid(project)) {
+        return next(new ErrorResponse('Invalid project ID format', 400));
+      }
+
+      await ProjectAccessService.authorize(project, req.user, 'write');
+    }
+
+    if (parent) {
+      if (!ObjectId.isValid(parent)) {
+        return next(new ErrorResponse('Invalid parent category ID format', 400));
+      }
+
+      const parentCategory = await findManageableCategory(parent, req.user!);
+      if (!parentCategory) {
+        return next(new ErrorResponse('Parent category not found', 404));
+      }
+
+      if (String(parentCategory.project || '') !== String(project || '')) {
+        return next(new ErrorResponse('Parent category must belong to the same project scope', 400));
+      }
+    }
+
+    const duplicate = await Category.exists({
+      createdBy: userId,
+      project: project || null,
+      parent: parent || null,
+      name: name.trim()
+    });
+    if (duplicate) {
+      return next(new ErrorResponse(`Category '${name.trim()}' already exists here`, 409));
+    }
+
+    const category = await Category.create({
+      name: name.trim(),
+      description: description?.trim(),
+      color,
+      parent: parent || null,
+      project: project || null,
+      createdBy: userId
+    });
+
+    setAuditContext(res, { resourceId: category._id, after: category });
+
+    res.status(201).json({
+      success: true,
+      message: 'Category created successfully',
+      data: category
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update category name, description, color or parent
+export const updateCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, color, parent } = req.body;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid category ID format', 400));
+    }
+
+    const category = await findManageableCategory(id, req.user!);
+    if (!category) {
+      return next(new ErrorResponse('Category not found', 404));
+    }
+
+    const before = category.toObject();
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return next(new ErrorResponse('Name cannot be empty', 400));
+      }
+      category.name = name.trim();
+    }
+
+    if (description !== undefined) {
+      category.description = description?.trim() || undefined;
+    }
+
+    if (color !== undefined) {
+      category.color = color || undefined;
+    }
+
+    if (parent !== undefined) {
+      if (parent === null || parent === '') {
+        category.parent = null;
+      } else {
+        if (!ObjectId.isValid(parent)) {
+          return next(new ErrorResponse('Invalid parent category ID format', 400));
+        }
+
+        const parentCategory = await findManageableCategory(parent, req.user!);
+        if (!parentCategory) {
+          return next(new ErrorResponse('Parent category not found', 404));
+        }
+
+        if (String(parentCategory.project || '') !== String(category.project || '')) {
+          return next(new ErrorResponse('Parent category must belong to the same project scope', 400));
+        }
+
+        if (await CategoryService.wouldCreateCycle(category._id, parentCategory._id)) {
+          return next(new ErrorResponse('A category cannot be moved under itself or its subcategories', 400));
+        }
+
+        category.parent = parentCategory._id;
+      }
+    }
+
+    await category.save();
+
+    setAuditContext(res, { before, after: category });
+
+    res.status(200).json({
+      success: true,
+      message: 'Category updated successfully',
+      data: category
+    });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return next(new ErrorResponse('A category with this name already exists here', 409));
+    }
+    next(error);
+  }
+};
+
+// Delete a category without subcategories; its transactions become uncategorized
+export const deleteCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid category ID format', 400));
+    }
+
+    const category = await findManageableCategory(id, req.user!);
+    if (!category) {
+      return next(new ErrorResponse('Category not found', 404));
+    }
+
+    const hasChildren = await Category.exists({ parent: category._id });
+    if (hasChildren) {
+      return next(new ErrorResponse('Delete or move the subcategories first', 409));
+    }
+
+    const [transactions] = await Promise.all([
+      Transaction.updateMany({ category: category._id }, { $set: { category: null } }),
+      Project.updateMany(
+        { 'categoryBudgets.category': category._id },
+        { $pull: { categoryBudgets: { category: category._id } } }
+      )
+    ]);
+
+    await category.deleteOne();
+
+    setAuditContext(res, { before: category });
+
+    res.status(200).json({
+      success: true,
+      message: 'Category deleted successfully',
+      data: {
+        id: category._id,
+        uncategorizedTransactions: transactions.modifiedCount
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,150 @@
+// src/controllers/deviceTokenController.ts
+import { Request, Response, NextFunction } from 'express';
+import DeviceToken from '../models/device.token.model';
+import { ErrorResponse } from '../utils/errorResponse';
+import Session from '../models/session.model';
+
+const PLATFORMS = ['ios', 'android', 'web', 'unknown'];
+
+// Register device token for logged-in user
+export const registerDeviceToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { token, platform = 'unknown' } = req.body;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!token || typeof token !== 'string' || !token.trim()) {
+      return next(new ErrorResponse('Device token is required', 400));
+    }
+
+    if (!PLATFORMS.includes(platform)) {
+      return next(new ErrorResponse('platform must be ios, android, web or unknown', 400));
+    }
+
+    // Token is unique: re-registering moves it to the current user and re-activates it
+    const deviceToken = await DeviceToken.findOneAndUpdate(
+      { token: token.trim() },
+      {
+        $set: {
+          user: userId,
+          platform,
+          isActive: true,
+          lastUsed: new Date()
+        }
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true, runValidators: true }
+    ).lean();
+
+    // Link the push token to the session it was registered from
+    if (req.user?.sessionId) {
+      await Session.updateOne(
+        { sessionId: req.user.sessionId, user: userId },
+        { $set: { deviceToken: deviceToken._id } }
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Device token registered successfully',
+      data: deviceToken
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace an old device token with a refreshed one
+export const refreshDeviceToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { oldToken, token, platform } = req.body;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (
+      typeof oldToken !== 'string' || !oldToken.trim()
+      || typeof token !== 'string' || !token.trim()
+    ) {
+      return next(new ErrorResponse('oldToken and token are required', 400));
+    }
+
+    if (platform !== undefined && !PLATFORMS.includes(platform)) {
+      return next(new ErrorResponse('platform must be ios, android, web or unknown', 400));
+    }
+
+    const existingToken = await DeviceToken.findOne({ token: oldToken.trim(), user: userId });
+    if (!existingToken) {
+      return next(new ErrorResponse('Device token not found', 404));
+    }
+
+    // Drop any stale record already holding the new token
+    if (oldToken.trim() !== token.trim()) {
+      await DeviceToken.deleteOne({ token: token.trim() });
+    }
+
+    existingToken.token = token.trim();
+    existingToken.isActive = true;
+    existingToken.lastUsed = new Date();
+    if (platform !== undefined) {
+      existingToken.platform = platform;
+    }
+    await existingToken.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Device token refreshed successfully',
+      data: existingToken
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Unregister device token (e.g. on logout)
+export const unregisterDeviceToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { token } = req.body;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!token) {
+      return next(new ErrorResponse('Device token is required', 400));
+    }
+
+    const deviceToken = await DeviceToken.findOneAndDelete({ token: token.trim(), user: userId });
+    if (!deviceToken) {
+      return next(new ErrorResponse('Device token not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Device token unregistered successfully',
+      data: {
+        id: deviceToken._id,
+        platform: deviceToken.platform
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,192 @@
+// src/controllers/exchangeRateController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import ExchangeRate from '../models/exchange.rate.model';
+import { CurrencyService } from '../services/currency.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+const MAX_LIMIT = 100;
+
+// Get exchange rates with filtering and pagination
+export const getExchangeRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { base, quote, page = '1', limit = '50' } = req.query;
+
+    const query: any = {};
+
+    if (base) {
+      query.base = CurrencyService.normalizeCode(base as string);
+    }
+
+    if (quote) {
+      query.quote = CurrencyService.normalizeCode(quote as string);
+    }
+
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), MAX_LIMIT);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [rates, total] = await Promise.all([
+      ExchangeRate.find(query)
+        .sort({ base: 1, quote: 1, effectiveDate: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      ExchangeRate.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: rates,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create or replace a rate for a currency pair and day (admin only)
+export const createExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { base, quote, rate, effectiveDate } = req.body;
+
+    if (!base || !quote || rate === undefined) {
+      return next(new ErrorResponse('base, quote and rate are required', 400));
+    }
+
+    const exchangeRate = await CurrencyService.upsertRate(
+      { base, quote, rate, effectiveDate },
+      'manual',
+      req.user?.id
+    );
+
+    setAuditContext(res, { resourceId: exchangeRate._id, after: exchangeRate });
+
+    res.status(201).json({
+      success: true,
+      message: 'Exchange rate saved successfully',
+      data: exchangeRate
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Import rates from an uploaded CSV or JSON file (admin only)
+export const importExchangeRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.file) {
+      return next(new ErrorResponse('No file uploaded', 400));
+    }
+
+    let rows;
+    try {
+      rows = CurrencyService.parseRatesFile(req.file.buffer.toString('utf8'), req.file.originalname);
+    } catch (parseError: any) {
+      return next(new ErrorResponse(parseError.message || 'Could not parse rates file', 400));
+    }
+
+    const result = await CurrencyService.importRates(rows, req.user?.id);
+
+    setAuditContext(res, { description: `exchange_rate import (${result.imported} rates)` });
+
+    res.status(200).json({
+      success: true,
+      message: `Imported ${result.imported} of ${rows.length} exchange rate(s)`,
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete exchange rate (admin only)
+export const deleteExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid exchange rate ID format', 400));
+    }
+
+    const exchangeRate = await ExchangeRate.findByIdAndDelete(id);
+    if (!exchangeRate) {
+      return next(new ErrorResponse('Exchange rate not found', 404));
+    }
+
+    setAuditContext(res, { before: exchangeRate });
+
+    res.status(200).json({
+      success: true,
+      message: 'Exchange rate deleted successfully',
+      data: {
+        id: exchangeRate._id
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Convert an amount between two currencies
+export const convertCurrency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { amount, from, to, date } = req.query;
+
+    const amountNum = Number(amount);
+    if (amount === undefined || isNaN(amountNum)) {
+      return next(new ErrorResponse('A numeric amount is required', 400));
+    }
+
+    if (!from || !to || !CurrencyService.isValidCode(from as string) || !CurrencyService.isValidCode(to as string)) {
+      return next(new ErrorResponse('from and to must be 3-letter ISO codes', 400));
+    }
+
+    const onDate = date ? new Date(date as string) : new Date();
+    if (isNaN(onDate.getTime())) {
+      return next(new ErrorResponse('Invalid date format', 400));
+    }
+
+    const result = await CurrencyService.convert(amountNum, from as string, to as string, onDate);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        from: CurrencyService.normalizeCode(from as string),
+        to: CurrencyService.normalizeCode(to as string),
+        date: onDate,
+        rate: result.rate,
+        amount: amountNum,
+        convertedAmount: result.amount
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,119 @@
+// src/controllers/identityController.ts
+import { Request, Response, NextFunction } from 'express';
+import { AUTH_PROVIDERS, AuthProvider } from '../models/auth.model';
+import { IdentityService, PROVIDER_NAMES } from '../services/identity.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+const isAuthProvider = (value: string): value is AuthProvider =>
+  (AUTH_PROVIDERS as readonly string[]).includes(value);
+
+// List the login methods linked to the logged-in user
+export const getMyIdentities = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const identities = await IdentityService.getIdentities(userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        identities: identities.map(identity => ({
+          provider: identity.provider,
+          name: PROVIDER_NAMES[identity.provider],
+          isVerified: identity.isVerified,
+          linkedAt: identity.createdAt
+        })),
+        available: AUTH_PROVIDERS.filter(provider => !identities.some(identity => identity.provider === provider))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Link a login method after re-authentication
+export const linkIdentity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { provider } = req.params;
+    const { token, password, confirmPassword, reauth } = req.body;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!isAuthProvider(provider)) {
+      return next(new ErrorResponse(`Provider must be one of: ${AUTH_PROVIDERS.join(', ')}`, 400));
+    }
+
+    await IdentityService.reauthenticate(userId, reauth, req.ip);
+    const identity = await IdentityService.linkProvider(userId, provider, { token, password, confirmPassword });
+
+    setAuditContext(res, {
+      resourceId: userId,
+      after: { provider: identity.provider },
+      description: `${PROVIDER_NAMES[provider]} login linked`
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${PROVIDER_NAMES[provider]} linked to your account`,
+      data: {
+        provider: identity.provider,
+        isVerified: identity.isVerified,
+        linkedAt: identity.createdAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Unlink a login method after re-authentication; the last one stays
+export const unlinkIdentity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { provider } = req.params;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!isAuthProvider(provider)) {
+      return next(new ErrorResponse(`Provider must be one of: ${AUTH_PROVIDERS.join(', ')}`, 400));
+    }
+
+    await IdentityService.reauthenticate(userId, req.body?.reauth, req.ip);
+    await IdentityService.unlinkProvider(userId, provider);
+
+    setAuditContext(res, {
+      resourceId: userId,
+      before: { provider },
+      description: `${PROVIDER_NAMES[provider]} login unlinked`
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `${PROVIDER_NAMES[provider]} unlinked from your account`
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,324 @@
+// src/controllers/notificationController.ts
+import { Request, Response, NextFunction } from 'express';
+import Notification, { NOTIFICATION_CATEGORIES } from '../models/notification.model';
+import User from '../models/user.model';
+import { ObjectId } from 'mongodb';
+import { ErrorResponse } from '../utils/errorResponse';
+
+const ENTITY_TYPES = ['PROJECT', 'PARTY', 'TRANSACTION', 'SYSTEM'];
+const NOTIFICATION_TYPES = ['INFO', 'WARNING', 'CRITICAL', 'SUCCESS'];
+const MAX_LIMIT = 100;
+
+// Cursor is "<createdAt ms>_<id>" of the last item on the previous page, base64url encoded
+const encodeCursor = (createdAt: Date, id: ObjectId | string): string =>
+  Buffer.from(`${createdAt.getTime()}_${id.toString()}`).toString('base64url');
+
+const decodeCursor = (cursor: string): { createdAt: Date; id: ObjectId } | null => {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('_');
+  const createdAt = new Date(Number(time));
+
+  if (!id || !ObjectId.isValid(id) || isNaN(createdAt.getTime())) {
+    return null;
+  }
+
+  return { createdAt, id: new ObjectId(id) };
+};
+
+// Build the common recipient + entityType/type filter from query params
+const buildNotificationFilter = (userId: ObjectId, query: Request['query']): any => {
+  const { entityType, type, isRead } = query;
+  const filter: any = { recipient: userId };
+
+  if (entityType && ENTITY_TYPES.includes(entityType as string)) {
+    filter.entityType = entityType;
+  }
+
+  if (type && NOTIFICATION_TYPES.includes(type as string)) {
+    filter.type = type;
+  }
+
+  if (isRead !== undefined) {
+    filter.isRead = isRead === 'true';
+  }
+
+  return filter;
+};
+
+// Get notifications for logged-in user (cursor pagination)
+export const getMyNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const { cursor, limit = '20' } = req.query;
+
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), MAX_LIMIT);
+    const filter = buildNotificationFilter(new ObjectId(userId), req.query);
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor as string);
+      if (!decoded) {
+        return next(new ErrorResponse('Invalid cursor', 400));
+      }
+
+      filter.$or = [
+        { createdAt: { $lt: decoded.createdAt } },
+        { createdAt: decoded.createdAt, _id: { $lt: decoded.id } }
+      ];
+    }
+
+    // Fetch one extra item to know whether another page exists
+    const notifications = await Notification.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limitNum + 1)
+      .lean();
+
+    const hasMore = notifications.length > limitNum;
+    const items = hasMore ? notifications.slice(0, limitNum) : notifications;
+    const last = items[items.length - 1];
+
+    res.status(200).json({
+      success: true,
+      data: items,
+      pagination: {
+        limit: limitNum,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get unread notifications count
+export const getUnreadCount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const filter = buildNotificationFilter(new ObjectId(userId), req.query);
+    filter.isRead = false;
+
+    const [total, byEntity] = await Promise.all([
+      Notification.countDocuments(filter),
+      Notification.aggregate([
+        { $match: filter },
+        { $group: { _id: '$entityType', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        unread: total,
+        byEntityType: byEntity.reduce((acc, curr) => {
+          acc[curr._id] = curr.count;
+          return acc;
+        }, {} as Record<string, number>)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark single notification as read
+export const markNotificationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid notification ID format', 400));
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, recipient: userId },
+      { $set: { isRead: true } },
+      { new: true }
+    ).lean();
+
+    if (!notification) {
+      return next(new ErrorResponse('Notification not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification marked as read',
+      data: notification
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark all notifications as read (optionally filtered by entityType/type)
+export const markAllNotificationsRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const filter = buildNotificationFilter(new ObjectId(userId), req.query);
+    filter.isRead = false;
+
+    const result = await Notification.updateMany(filter, { $set: { isRead: true } });
+
+    res.status(200).json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: {
+        modifiedCount: result.modifiedCount
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete notification
+export const deleteNotification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid notification ID format', 400));
+    }
+
+    const notification = await Notification.findOneAndDelete({ _id: id, recipient: userId });
+
+    if (!notification) {
+      return next(new ErrorResponse('Notification not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification deleted successfully',
+      data: {
+        id: notification._id
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get notification preferences of logged-in user
+export const getNotificationPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const user = await User.findById(userId).select('notificationPreferences').lean();
+    if (!user) {
+      return next(new ErrorResponse('User not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        mutedCategories: user.notificationPreferences?.mutedCategories || [],
+        availableCategories: NOTIFICATION_CATEGORIES
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update muted notification categories
+export const updateNotificationPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { mutedCategories } = req.body;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    if (!Array.isArray(mutedCategories)) {
+      return next(new ErrorResponse('mutedCategories must be an array', 400));
+    }
+
+    const invalid = mutedCategories.filter(
+      (category: string) => !(NOTIFICATION_CATEGORIES as readonly string[]).includes(category)
+    );
+    if (invalid.length > 0) {
+      return next(new ErrorResponse(
+        `Invalid categories: ${invalid.join(', ')}. Allowed: ${NOTIFICATION_CATEGORIES.join(', ')}`,
+        400
+      ));
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { 'notificationPreferences.mutedCategories': [...new Set(mutedCategories)] } },
+      { new: true, runValidators: true }
+    )
+      .select('notificationPreferences')
+      .lean();
+
+    if (!user) {
+      return next(new ErrorResponse('User not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification preferences updated successfully',
+      data: {
+        mutedCategories: user.notificationPreferences?.mutedCategories || []
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,11 @@
 // src/controllers/partyController.ts
 import { Request, Response, NextFunction } from 'express';
 import Party from '../models/party.model';
-import Project from '../models/project.model';
 import { ObjectId } from 'mongodb';
 import { ErrorResponse } from '../utils/errorResponse';
+import { DomainEventService } from '../services/domainEvent.service';
+import { ProjectAccessService } from '../services/projectAccess.service';
+import { setAuditContext } from '../middleware/auditMiddleware';
 
 // Create party for a project
 export const createParty = async (
@@ -35,11 +37,8 @@ export const createParty = async (
       return next(new ErrorResponse('partyType must be CLIENT or VENDOR', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may edit it
+    const project = await ProjectAccessService.authorize(projectId, req.user, 'write');
 
     // Check if party with same name already exists in same project
     const existingParty = await Party.findOne({ 
@@ -63,6 +62,14 @@ export const createParty = async (
 
     await party.save();
 
+    setAuditContext(res, { resourceId: party._id as ObjectId, after: party });
+
+    DomainEventService.emit('party.created', {
+      party,
+      project,
+      actorId: req.user?.id
+    });
+
     res.status(201).json({
       success: true,
       message: `${partyType} created successfully`,
@@ -92,11 +99,8 @@ export const getProjectParties = async (
       return next(new ErrorResponse('Valid project ID is required', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may view it
+    const project = await ProjectAccessService.authorize(projectId, req.user, 'read');
 
     const query: any = { project: projectId };
 
@@ -183,11 +187,8 @@ export const getPartyById = async (
       return next(new ErrorResponse('Valid party ID is required', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may view it
+    await ProjectAccessService.authorize(projectId, req.user, 'read');
 
     // Get party
     const party = await Party.findOne({
@@ -226,11 +227,8 @@ export const updateParty = async (
       return next(new ErrorResponse('Valid party ID is required', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may edit it
+    await ProjectAccessService.authorize(projectId, req.user, 'write');
 
     // Check if party exists
     const existingParty = await Party.findOne({
@@ -301,6 +299,8 @@ export const updateParty = async (
       { new: true, runValidators: true }
     ).lean();
 
+    setAuditContext(res, { before: existingParty, after: updatedParty });
+
     res.status(200).json({
       success: true,
       message: 'Party updated successfully',
@@ -328,11 +328,8 @@ export const deleteParty = async (
       return next(new ErrorResponse('Valid party ID is required', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may edit it
+    const project = await ProjectAccessService.authorize(projectId, req.user, 'write');
 
     // Check if party exists
     const party = await Party.findOne({
@@ -347,6 +344,14 @@ export const deleteParty = async (
     // Delete party
     await Party.findByIdAndDelete(partyId);
 
+    setAuditContext(res, { before: party });
+
+    DomainEventService.emit('party.deleted', {
+      party,
+      project,
+      actorId: req.user?.id
+    });
+
     res.status(200).json({
       success: true,
       message: 'Party deleted successfully',
@@ -374,11 +379,8 @@ export const getPartyStatistics = async (
       return next(new ErrorResponse('Valid project ID is required', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(projectId);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Check if project exists and the user may view it
+    const project = await ProjectAccessService.authorize(projectId, req.user, 'read');
 
     // Get statistics
     const stats = await Party.aggregate([
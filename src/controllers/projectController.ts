@@ -1,9 +1,20 @@
 // src/controllers/projectController.ts
 import { Request, Response, NextFunction } from 'express';
-import Project, { IProject } from '../models/project.model';
+import Project, { IProject, PROJECT_STATUSES, ProjectStatus } from '../models/project.model';
 import Party from '../models/party.model';
 import { ObjectId } from 'mongodb';
 import { ErrorResponse } from '../utils/errorResponse';
+import { BudgetAlertService } from '../services/budgetAlert.service';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { CurrencyService } from '../services/currency.service';
+import { CategoryService } from '../services/category.service';
+import { ProjectAccessService } from '../services/projectAccess.service';
+import { WorkspaceService } from '../services/workspace.service';
+import { ProjectTrashService } from '../services/projectTrash.service';
+import { ProjectStatusService, INITIAL_PROJECT_STATUSES, PROJECT_STATUS_LOCKED } from '../services/projectStatus.service';
+import Category from '../models/category.model';
+import { config } from '../config/config';
+import { setAuditContext } from '../middleware/auditMiddleware';
 
 // Get all projects with filtering and pagination
 export const getAllProjects = async (
@@ -15,6 +26,8 @@ export const getAllProjects = async (
     const {
       status,
       createdBy,
+      workspace,
+      trashed,
       page = '1',
       limit = '10',
       search,
@@ -22,10 +35,11 @@ export const getAllProjects = async (
       sortOrder = 'desc'
     } = req.query;
 
-    const query: any = {};
+    // Projects in the trash are listed only on request
+    const query: any = { deletedAt: trashed === 'true' ? { $ne: null } : null };
 
     // Filter by status
-    if (status && ['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'].includes(status as string)) {
+    if (status && PROJECT_STATUSES.includes(status as ProjectStatus)) {
       query.status = status;
     }
 
@@ -34,6 +48,11 @@ export const getAllProjects = async (
       query.createdBy = new ObjectId(createdBy as string);
     }
 
+    // Filter by workspace
+    if (workspace && ObjectId.isValid(workspace as string)) {
+      query.workspace = new ObjectId(workspace as string);
+    }
+
     // Search by title or code
     if (search) {
       query.$or = [
@@ -128,10 +147,11 @@ export const getMyProjects = async (
       sortOrder = 'desc'
     } = req.query;
 
-    const query: any = { createdBy: new ObjectId(userId) };
+    // Projects of the current workspace
+    const query: any = { _id: { $in: await ProjectAccessService.getAccessibleProjectIds(req.user!) } };
 
     // Filter by status
-    if (status && ['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'].includes(status as string)) {
+    if (status && PROJECT_STATUSES.includes(status as ProjectStatus)) {
       query.status = status;
     }
 
@@ -220,34 +240,37 @@ export const getMyProjectStatistics = async (
       return;
     }
 
-    // Total projects created by user
-    const totalProjects = await Project.countDocuments({ createdBy: userId });
+    // Total projects of the current workspace
+    const projectIds = await ProjectAccessService.getAccessibleProjectIds(req.user!);
+    const totalProjects = projectIds.length;
 
     // Projects by status
     const projectsByStatus = await Project.aggregate([
-      { $match: { createdBy: new ObjectId(userId) } },
+      { $match: { _id: { $in: projectIds } } },
       { $group: { _id: '$status', count: { $sum: 1 } } }
     ]);
 
-    // Total budget and financials
-    const financialStats = await Project.aggregate([
-      { $match: { createdBy: new ObjectId(userId) } },
+    // Total budget and financials, per project currency
+    const reportingCurrency = await CurrencyService.getReportingCurrency(req.user?.id, req.query.currency as string | undefined);
+    const financialsByCurrency = await Project.aggregate([
+      { $match: { _id: { $in: projectIds } } },
       {
         $group: {
-          _id: null,
+          _id: '$currency',
           totalBudget: { $sum: '$initialBudget' },
           totalIncome: { $sum: '$totalIncome' },
           totalExpense: { $sum: '$totalExpense' },
-          balance: { $sum: '$balance' },
-          avgBudget: { $avg: '$initialBudget' }
+          balance: { $sum: '$balance' }
         }
       }
     ]);
+    const { totals: financialStats, unconverted } = await CurrencyService.convertGroupedTotals(
+      financialsByCurrency,
+      ['totalBudget', 'totalIncome', 'totalExpense', 'balance'],
+      reportingCurrency
+    );
 
     // Get total parties count for all user's projects
-    const userProjects = await Project.find({ createdBy: userId }).select('_id');
-    const projectIds = userProjects.map(p => p._id);
-
     const partiesStats = await Party.aggregate([
       { $match: { project: { $in: projectIds } } },
       {
@@ -262,11 +285,14 @@ export const getMyProjectStatistics = async (
     const statistics = {
       projects: {
         totalProjects,
-        totalBudget: financialStats[0]?.totalBudget || 0,
-        totalIncome: financialStats[0]?.totalIncome || 0,
-        totalExpense: financialStats[0]?.totalExpense || 0,
-        totalNetProfit: financialStats[0]?.totalNetProfit || 0,
-        avgBudget: Math.round(financialStats[0]?.avgBudget || 0),
+        currency: reportingCurrency,
+        totalBudget: financialStats.totalBudget,
+        totalIncome: financialStats.totalIncome,
+        totalExpense: financialStats.totalExpense,
+        totalNetProfit: financialStats.balance,
+        avgBudget: totalProjects > 0 ? Math.round(financialStats.totalBudget / totalProjects) : 0,
+        // Totals of currencies without an exchange rate to the reporting currency
+        unconverted,
         byStatus: projectsByStatus.reduce((acc, curr) => {
           acc[curr._id] = curr.count;
           return acc;
@@ -303,11 +329,9 @@ export const getProjectById = async (
     }
 
     // Get project
-    const project = await Project.findById(id).lean();
-
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    const projectDocument = await ProjectAccessService.authorize(id, req.user, 'read');
+    const project = projectDocument.toObject();
+    const role = await ProjectAccessService.getRole(projectDocument, req.user!);
 
     // Get all parties for this project
     const [clients, vendors] = await Promise.all([
@@ -333,12 +357,15 @@ export const getProjectById = async (
       totalExpense: project.totalExpense || 0,
       balance: project.balance || 0,
       initialBudget: project.initialBudget || 0,
-      remainingBudget: (project.initialBudget || 0) - (project.totalExpense || 0)
+      remainingBudget: (project.initialBudget || 0) - (project.totalExpense || 0),
+      categoryBudgets: await CategoryService.getBudgetUtilization(project)
     };
 
     // Add parties to project response
     const projectWithDetails = {
       ...project,
+      role,
+      allowedTransitions: ProjectStatusService.getAllowedTransitions(project),
       parties: {
         clients,
         vendors
@@ -371,12 +398,13 @@ export const getProjectByCode = async (
   try {
     const { code } = req.params;
 
-    // Get project
-    const project = await Project.findOne({ code: code.toUpperCase() }).lean();
-
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    // Codes are unique per workspace, so look in the current one
+    const { workspace } = await WorkspaceService.getCurrent(req.user!);
+    const project = (await ProjectAccessService.assertAccess(
+      await Project.findOne({ code: code.toUpperCase(), workspace: workspace._id }),
+      req.user,
+      'read'
+    )).toObject();
 
     // Get parties for this project
     const [clients, vendors] = await Promise.all([
@@ -426,7 +454,7 @@ export const createProject = async (
       title,
       description,
       projectImage,
-      currency = 'USD',
+      currency = config.DEFAULT_CURRENCY,
       initialBudget = 0,
       status = 'ACTIVE',
       startDate,
@@ -438,11 +466,18 @@ export const createProject = async (
       return next(new ErrorResponse('Title is required', 400));
     }
 
-    // Validate status
-    if (status && !['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'].includes(status)) {
-      return next(new ErrorResponse('Invalid status value', 400));
+    // New projects start out planned or active; other statuses are reached through the workflow
+    if (!INITIAL_PROJECT_STATUSES.includes(status)) {
+      return next(new ErrorResponse(`New projects must be ${INITIAL_PROJECT_STATUSES.join(' or ')}`, 400));
     }
 
+    if (!CurrencyService.isValidCode(currency)) {
+      return next(new ErrorResponse('Currency must be a 3-letter ISO code', 400));
+    }
+
+    // New projects go to the current workspace; codes are unique within it
+    const { workspace } = await WorkspaceService.getCurrent(req.user!);
+
     // Generate project code: first 3 letters of title + sequence number
     const titleWords = title.trim().split(' ').filter((word : string) => word.length > 0);
     
@@ -457,6 +492,7 @@ export const createProject = async (
     // Find the latest project code with same prefix to get next sequence number
     const regex = new RegExp(`^${codePrefix}(\\d+)$`);
     const latestProject = await Project.findOne({
+      workspace: workspace._id,
       code: { $regex: regex }
     }).sort({ code: -1 }).limit(2);
 
@@ -473,14 +509,14 @@ export const createProject = async (
     const formattedCode = `${codePrefix}${sequenceNumber.toString().padStart(2, '0')}`;
 
     // Check if project code already exists (just in case)
-    const existingProject = await Project.findOne({ code: formattedCode });
+    const existingProject = await Project.findOne({ code: formattedCode, workspace: workspace._id });
     if (existingProject) {
       // If by chance code exists, increment sequence number
       sequenceNumber++;
       const newCode = `${codePrefix}${sequenceNumber.toString().padStart(2, '0')}`;
       // Recursively check until we find unique code (max 10 attempts)
       for (let i = 0; i < 10; i++) {
-        const checkProject = await Project.findOne({ code: newCode });
+        const checkProject = await Project.findOne({ code: newCode, workspace: workspace._id });
         if (!checkProject) {
           break;
         }
@@ -520,9 +556,12 @@ export const createProject = async (
       initialBudget,
       projectImage,
       status,
-      currency,
-      startDate: startDateObj,
+      statusHistory: ProjectStatusService.initialHistory(status, req.user?.id),
+      currency: CurrencyService.normalizeCode(currency),
+      // A planned project without a start date waits until someone activates it
+      startDate: startDateObj ?? (status === 'PLANNED' ? null : undefined),
       endDate: endDateObj,
+      workspace: workspace._id
     };
 
     // Add createdBy if user is authenticated
@@ -530,9 +569,12 @@ export const createProject = async (
       projectData.createdBy = new ObjectId(req.user.id);
     }
 
-    // Create new project
-    const project = new Project(projectData);
-    await project.save();
+    // Create new project; a planned project whose start date has passed starts right away
+    const createdProject = new Project(projectData);
+    await createdProject.save();
+    const project = await ProjectStatusService.applyStartDate(createdProject);
+
+    setAuditContext(res, { resourceId: project._id as ObjectId, after: project });
 
     res.status(201).json({
       success: true,
@@ -559,9 +601,10 @@ export const updateProject = async (
     }
 
     // Find project first
-    const existingProject = await Project.findById(id);
-    if (!existingProject) {
-      return next(new ErrorResponse('Project not found', 404));
+    const existingProject = await ProjectAccessService.authorize(id, req.user, 'write');
+
+    if (existingProject.status === 'ARCHIVED') {
+      return next(new ErrorResponse('Archived projects are read-only. Move the project out of the archive first.', 409, PROJECT_STATUS_LOCKED));
     }
 
     const updateFields: any = {};
@@ -580,11 +623,12 @@ export const updateProject = async (
       
       const duplicateProject = await Project.findOne({ 
         code: formattedCode,
+        workspace: existingProject.workspace,
         _id: { $ne: id }
       });
       
       if (duplicateProject) {
-        return next(new ErrorResponse(`Project code '${formattedCode}' already exists`, 409));
+        return next(new ErrorResponse(`Project code '${formattedCode}' already exists in this workspace`, 409));
       }
       updateFields.code = formattedCode;
     }
@@ -602,12 +646,13 @@ export const updateProject = async (
       updateFields.initialBudget = updateData.initialBudget;
     }
 
-    // Update status
-    if (updateData.status !== undefined) {
-      if (!['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'].includes(updateData.status)) {
-        return next(new ErrorResponse('Invalid status value', 400));
+    // Status changes follow the workflow and are recorded in the history after the other fields
+    let nextStatus: ProjectStatus | undefined;
+    if (updateData.status !== undefined && updateData.status !== existingProject.status) {
+      nextStatus = ProjectStatusService.assertTransition(existingProject, updateData.status);
+      if (ProjectStatusService.requiresManage(existingProject.status, nextStatus)) {
+        await ProjectAccessService.assertAccess(existingProject, req.user, 'manage');
       }
-      updateFields.status = updateData.status;
     }
 
     // Update dates
@@ -633,31 +678,29 @@ export const updateProject = async (
       updateFields.endDate = endDate;
     }
 
-    // Update financial fields (if allowed)
-    if (updateData.totalIncome !== undefined) {
-      if (updateData.totalIncome < 0) {
-        return next(new ErrorResponse('Total income cannot be negative', 400));
-      }
-      updateFields.totalIncome = updateData.totalIncome;
-      // Auto-calculate net profit
-      updateFields.netProfit = updateData.totalIncome - (updateFields.totalExpense || existingProject.totalExpense);
+    // Update project; with a status change the fields are written in the same update
+    let updatedProject: IProject | null = nextStatus
+      ? await ProjectStatusService.changeStatus(existingProject, nextStatus, {
+          actorId: req.user!.id,
+          reason: updateData.statusReason,
+          fields: updateFields
+        })
+      : await Project.findByIdAndUpdate(
+          id,
+          { $set: updateFields },
+          { new: true, runValidators: true }
+        );
+
+    if (updatedProject) {
+      updatedProject = await ProjectStatusService.applyStartDate(updatedProject);
     }
 
-    if (updateData.totalExpense !== undefined) {
-      if (updateData.totalExpense < 0) {
-        return next(new ErrorResponse('Total expense cannot be negative', 400));
-      }
-      updateFields.totalExpense = updateData.totalExpense;
-      // Auto-calculate net profit
-      updateFields.netProfit = (updateFields.totalIncome || existingProject.totalIncome) - updateData.totalExpense;
+    // Budget changes can cross or re-arm alert thresholds
+    if (updateFields.initialBudget !== undefined) {
+      await BudgetAlertService.evaluateProject(id);
     }
 
-    // Update project
-    const updatedProject = await Project.findByIdAndUpdate(
-      id,
-      { $set: updateFields },
-      { new: true, runValidators: true }
-    ).lean();
+    setAuditContext(res, { before: existingProject, after: updatedProject });
 
     res.status(200).json({
       success: true,
@@ -669,7 +712,7 @@ export const updateProject = async (
   }
 };
 
-// Delete project
+// Delete project (moves it to the trash with its parties and transactions)
 export const deleteProject = async (
   req: Request, 
   res: Response, 
@@ -683,31 +726,22 @@ export const deleteProject = async (
     }
 
     // Check if project exists
-    const project = await Project.findById(id);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    const project = await ProjectAccessService.authorize(id, req.user, 'manage');
+    const before = project.toObject();
 
-    // Check if project has any parties
-    const partiesCount = await Party.countDocuments({ project: id });
-    
-    if (partiesCount > 0) {
-      return next(new ErrorResponse(
-        `Cannot delete project. It has ${partiesCount} associated parties. Delete parties first or use force delete.`,
-        400
-      ));
-    }
+    await ProjectTrashService.trash(project, req.user?.id);
 
-    // Delete the project
-    await Project.findByIdAndDelete(id);
+    setAuditContext(res, { before, after: project });
 
     res.status(200).json({
       success: true,
-      message: 'Project deleted successfully',
+      message: 'Project moved to trash',
       data: {
         id: project._id,
         title: project.title,
-        code: project.code
+        code: project.code,
+        deletedAt: project.deletedAt,
+        purgeAt: ProjectTrashService.getPurgeDate(project.deletedAt!)
       }
     });
   } catch (error) {
@@ -715,8 +749,8 @@ export const deleteProject = async (
   }
 };
 
-// Force delete project (with all parties)
-export const forceDeleteProject = async (
+// Restore a project from the trash
+export const restoreProject = async (
   req: Request, 
   res: Response, 
   next: NextFunction
@@ -728,28 +762,82 @@ export const forceDeleteProject = async (
       return next(new ErrorResponse('Invalid project ID format', 400));
     }
 
-    // Check if project exists
-    const project = await Project.findById(id);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
+    const project = await ProjectAccessService.authorize(id, req.user, 'manage', { includeTrashed: true });
+    const before = project.toObject();
+
+    await ProjectTrashService.restore(project, req.user?.id);
+
+    setAuditContext(res, { before, after: project });
+
+    res.status(200).json({
+      success: true,
+      message: 'Project restored successfully',
+      data: project
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the logged-in user's projects in the trash
+export const getTrashedProjects = async (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
     }
 
-    // Delete all parties associated with this project
-    const deleteResult = await Party.deleteMany({ project: id });
+    const projects = await ProjectTrashService.listForUser(userId);
 
-    // Delete the project
-    await Project.findByIdAndDelete(id);
+    res.status(200).json({
+      success: true,
+      data: projects,
+      retentionDays: config.PROJECT_TRASH_RETENTION_DAYS
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Force delete project: permanently removes it with its parties, transactions and receipts
+export const forceDeleteProject = async (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid project ID format', 400));
+    }
+
+    // Check if project exists (also in the trash)
+    const project = await ProjectAccessService.authorize(id, req.user, 'manage', { includeTrashed: true });
+
+    const deleted = await ProjectTrashService.purge(project._id as ObjectId);
+
+    setAuditContext(res, {
+      before: project,
+      description: `project force_delete (${deleted.parties} parties, ${deleted.transactions} transactions removed)`
+    });
 
     res.status(200).json({
       success: true,
-      message: 'Project and all associated parties deleted successfully',
+      message: 'Project and all associated data deleted permanently',
       data: {
         project: {
           id: project._id,
           title: project.title,
           code: project.code
         },
-        partiesDeleted: deleteResult.deletedCount
+        partiesDeleted: deleted.parties,
+        deleted
       }
     });
   } catch (error) {
@@ -757,7 +845,8 @@ export const forceDeleteProject = async (
   }
 };
 
-// Update project status
+// Move a project to another status of the workflow; cancelling and archiving
+// (and undoing them) need the manage permission
 export const updateProjectStatus = async (
   req: Request, 
   res: Response, 
@@ -765,180 +854,55 @@ export const updateProjectStatus = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
 
     if (!ObjectId.isValid(id)) {
       return next(new ErrorResponse('Invalid project ID format', 400));
     }
 
-    // Validate status
-    if (!['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'].includes(status)) {
-      return next(new ErrorResponse('Invalid status value', 400));
+    const project = await ProjectAccessService.authorize(id, req.user, 'write');
+    const nextStatus = ProjectStatusService.assertTransition(project, status);
+    if (ProjectStatusService.requiresManage(project.status, nextStatus)) {
+      await ProjectAccessService.assertAccess(project, req.user, 'manage');
     }
 
-    const updatedProject = await Project.findByIdAndUpdate(
-      id,
-      { $set: { status } },
-      { new: true, runValidators: true }
-    ).lean();
+    const before = project.toObject();
+    const updatedProject = await ProjectStatusService.changeStatus(project, nextStatus, {
+      actorId: req.user!.id,
+      reason
+    });
 
-    if (!updatedProject) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    setAuditContext(res, { before, after: updatedProject });
 
     res.status(200).json({
       success: true,
       message: 'Project status updated successfully',
-      data: updatedProject
+      data: {
+        ...updatedProject.toObject(),
+        allowedTransitions: ProjectStatusService.getAllowedTransitions(updatedProject)
+      }
     });
   } catch (error) {
     next(error);
   }
 };
 
-// Get project statistics
-export const getProjectStatistics = async (
+// Status history of a project, newest first, with the statuses it can move to next
+export const getProjectStatusHistory = async (
   req: Request, 
   res: Response, 
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { createdBy } = req.query;
-
-    const matchStage: any = {};
-    
-    // Filter by createdBy if provided
-    if (createdBy && ObjectId.isValid(createdBy as string)) {
-      matchStage.createdBy = new ObjectId(createdBy as string);
-    }
-
-    const statistics = await Project.aggregate([
-      { $match: matchStage },
-      {
-        $group: {
-          _id: null,
-          totalProjects: { $sum: 1 },
-          totalBudget: { $sum: '$initialBudget' },
-          totalIncome: { $sum: '$totalIncome' },
-          totalExpense: { $sum: '$totalExpense' },
-          totalNetProfit: { $sum: '$netProfit' },
-          activeProjects: {
-            $sum: { $cond: [{ $eq: ['$status', 'ACTIVE'] }, 1, 0] }
-          },
-          completedProjects: {
-            $sum: { $cond: [{ $eq: ['$status', 'COMPLETED'] }, 1, 0] }
-          },
-          plannedProjects: {
-            $sum: { $cond: [{ $eq: ['$status', 'PLANNED'] }, 1, 0] }
-          },
-          onHoldProjects: {
-            $sum: { $cond: [{ $eq: ['$status', 'ON_HOLD'] }, 1, 0] }
-          },
-          overdueProjects: {
-            $sum: {
-              $cond: [
-                {
-                  $and: [
-                    { $eq: ['$status', 'ACTIVE'] },
-                    { $ne: ['$endDate', null] },
-                    { $lt: ['$endDate', new Date()] }
-                  ]
-                },
-                1,
-                0
-              ]
-            }
-          }
-        }
-      },
-      {
-        $addFields: {
-          budgetUtilization: {
-            $cond: [
-              { $eq: ['$totalBudget', 0] },
-              0,
-              { $divide: ['$totalExpense', '$totalBudget'] }
-            ]
-          },
-          averageBudget: {
-            $cond: [
-              { $eq: ['$totalProjects', 0] },
-              0,
-              { $divide: ['$totalBudget', '$totalProjects'] }
-            ]
-          },
-          successRate: {
-            $cond: [
-              { $eq: ['$totalProjects', 0] },
-              0,
-              { $divide: ['$completedProjects', '$totalProjects'] }
-            ]
-          }
-        }
-      }
-    ]);
-
-    const stats = statistics[0] || {
-      totalProjects: 0,
-      totalBudget: 0,
-      totalIncome: 0,
-      totalExpense: 0,
-      totalNetProfit: 0,
-      activeProjects: 0,
-      completedProjects: 0,
-      plannedProjects: 0,
-      onHoldProjects: 0,
-      overdueProjects: 0,
-      budgetUtilization: 0,
-      averageBudget: 0,
-      successRate: 0
-    };
-
-    // Get parties statistics
-    const partiesStats = await Party.aggregate([
-      {
-        $lookup: {
-          from: 'projects',
-          localField: 'project',
-          foreignField: '_id',
-          as: 'projectInfo'
-        }
-      },
-      { $unwind: '$projectInfo' },
-      { $match: matchStage },
-      {
-        $group: {
-          _id: null,
-          totalParties: { $sum: 1 },
-          totalClients: {
-            $sum: { $cond: [{ $eq: ['$partyType', 'CLIENT'] }, 1, 0] }
-          },
-          totalVendors: {
-            $sum: { $cond: [{ $eq: ['$partyType', 'VENDOR'] }, 1, 0] }
-          },
-          activeParties: {
-            $sum: { $cond: [{ $eq: ['$status', 'ACTIVE'] }, 1, 0] }
-          }
-        }
-      }
-    ]);
-
-    const partiesData = partiesStats[0] || {
-      totalParties: 0,
-      totalClients: 0,
-      totalVendors: 0,
-      activeParties: 0
-    };
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'read');
+    const history = await ProjectStatusService.getHistory(project._id as ObjectId);
 
     res.status(200).json({
       success: true,
       data: {
-        projects: stats,
-        parties: partiesData,
-        combined: {
-          totalEntities: stats.totalProjects + partiesData.totalParties,
-          activeEntities: stats.activeProjects + partiesData.activeParties
-        }
+        status: project.status,
+        allowedTransitions: ProjectStatusService.getAllowedTransitions(project),
+        history
       }
     });
   } catch (error) {
@@ -980,14 +944,11 @@ export const updateProjectFinancials = async (
     }
 
     // Calculate net profit
-    const project = await Project.findById(id);
-    if (!project) {
-      return next(new ErrorResponse('Project not found', 404));
-    }
+    const project = await ProjectAccessService.authorize(id, req.user, 'manage');
 
     const finalIncome = totalIncome !== undefined ? totalIncome : project.totalIncome;
     const finalExpense = totalExpense !== undefined ? totalExpense : project.totalExpense;
-    updateFields.netProfit = finalIncome - finalExpense;
+    updateFields.balance = finalIncome - finalExpense;
 
     // Update project
     const updatedProject = await Project.findByIdAndUpdate(
@@ -996,6 +957,8 @@ export const updateProjectFinancials = async (
       { new: true, runValidators: true }
     ).lean();
 
+    setAuditContext(res, { before: project, after: updatedProject });
+
     res.status(200).json({
       success: true,
       message: 'Project financials updated successfully',
@@ -1033,17 +996,17 @@ export const checkMyProjectCodeExists = async (
       return;
     }
 
-    // Check if code exists for THIS USER only
+    // Check if code exists in the current workspace only
+    const { workspace } = await WorkspaceService.getCurrent(req.user!);
     const project = await Project.findOne({ 
       code: code.toUpperCase(),
-      createdBy: new ObjectId(userId)
+      workspace: workspace._id
     });
     
-    console.log(project, "kldfaj alkjf kaljflka ")
     res.status(200).json({
       success: true,
       exists: !!project,
-      message: project ? 'Project code already exists for your account' : 'Code is available'
+      message: project ? 'Project code already exists in this workspace' : 'Code is available'
     });
   } catch (error) {
     next(error);
@@ -1080,4 +1043,238 @@ export const checkGlobalProjectCodeExists = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// Get budget thresholds and alert history for a project
+export const getProjectBudgetAlerts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid project ID format', 400));
+    }
+
+    const project = (await ProjectAccessService.authorize(id, req.user, 'read')).toObject();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        project: {
+          id: project._id,
+          title: project.title,
+          code: project.code,
+          currency: project.currency
+        },
+        initialBudget: project.initialBudget,
+        totalExpense: project.totalExpense,
+        budgetUtilization: BudgetAlertService.getUtilization(project),
+        thresholds: project.budgetAlertThresholds,
+        crossedThresholds: project.crossedThresholds,
+        history: [...(project.budgetAlerts || [])].sort(
+          (a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime()
+        )
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update budget alert thresholds (% of initialBudget)
+export const updateBudgetThresholds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { thresholds } = req.body;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid project ID format', 400));
+    }
+
+    if (!Array.isArray(thresholds) || thresholds.length === 0) {
+      return next(new ErrorResponse('thresholds must be a non-empty array of percentages', 400));
+    }
+
+    const invalid = thresholds.some(
+      (value: any) => typeof value !== 'number' || isNaN(value) || value < 1 || value > 1000
+    );
+    if (invalid) {
+      return next(new ErrorResponse('Each threshold must be a number between 1 and 1000', 400));
+    }
+
+    const uniqueThresholds = [...new Set<number>(thresholds)].sort((a, b) => a - b);
+
+    await ProjectAccessService.authorize(id, req.user, 'write');
+
+    // Returns the project as it was before the update (for the audit trail)
+    const project = await Project.findOneAndUpdate(
+      { _id: id },
+      { $set: { budgetAlertThresholds: uniqueThresholds } },
+      { new: false, runValidators: true }
+    );
+
+    if (!project) {
+      return next(new ErrorResponse('Project not found', 404));
+    }
+
+    setAuditContext(res, {
+      before: { budgetAlertThresholds: project.budgetAlertThresholds },
+      after: { budgetAlertThresholds: uniqueThresholds }
+    });
+
+    const triggered = await BudgetAlertService.evaluateProject(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Budget thresholds updated successfully',
+      data: {
+        thresholds: uniqueThresholds,
+        budgetUtilization: BudgetAlertService.getUtilization(project),
+        triggered
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Recompute project totals from transactions (admin only); dry run by default
+export const reconcileProjectTotals = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { dryRun = true, projectIds } = req.body || {};
+
+    if (projectIds !== undefined) {
+      if (!Array.isArray(projectIds) || projectIds.some((id: string) => !ObjectId.isValid(id))) {
+        return next(new ErrorResponse('projectIds must be an array of valid project IDs', 400));
+      }
+    }
+
+    if (typeof dryRun !== 'boolean') {
+      return next(new ErrorResponse('dryRun must be a boolean value', 400));
+    }
+
+    const report = await ReconciliationService.reconcileProjects({
+      projectIds,
+      fix: !dryRun
+    });
+
+    res.status(200).json({
+      success: true,
+      message: dryRun
+        ? `Found ${report.discrepancies.length} project(s) with drifted totals`
+        : `Fixed ${report.fixedProjects} project(s) with drifted totals`,
+      data: report
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get per-category budget allocations and their utilization
+export const getCategoryBudgets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid project ID format', 400));
+    }
+
+    const project = (await ProjectAccessService.authorize(id, req.user, 'read')).toObject();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        project: {
+          id: project._id,
+          title: project.title,
+          code: project.code,
+          currency: project.currency
+        },
+        initialBudget: project.initialBudget,
+        totalExpense: project.totalExpense,
+        ...(await CategoryService.getBudgetUtilization(project))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace per-category budget allocations (amounts in project currency)
+export const updateCategoryBudgets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { budgets } = req.body;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid project ID format', 400));
+    }
+
+    if (!Array.isArray(budgets)) {
+      return next(new ErrorResponse('budgets must be an array of { category, amount }', 400));
+    }
+
+    const invalid = budgets.some(
+      (budget: any) => !budget
+        || !ObjectId.isValid(budget.category)
+        || typeof budget.amount !== 'number'
+        || isNaN(budget.amount)
+        || budget.amount < 0
+    );
+    if (invalid) {
+      return next(new ErrorResponse('Each budget needs a valid category and an amount of 0 or more', 400));
+    }
+
+    const categoryIds = budgets.map((budget: any) => String(budget.category));
+    if (new Set(categoryIds).size !== categoryIds.length) {
+      return next(new ErrorResponse('Each category can only be allocated once', 400));
+    }
+
+    const project = await ProjectAccessService.authorize(id, req.user, 'write');
+
+    const usable = await Category.countDocuments({
+      _id: { $in: categoryIds },
+      ...CategoryService.getScopeFilter(req.user!.id, id)
+    });
+    if (usable !== categoryIds.length) {
+      return next(new ErrorResponse('One or more categories were not found for this project', 404));
+    }
+
+    const before = { categoryBudgets: project.categoryBudgets };
+
+    project.categoryBudgets = budgets.map((budget: any) => ({
+      category: new ObjectId(budget.category as string),
+      amount: budget.amount
+    }));
+    await project.save();
+
+    setAuditContext(res, { before, after: { categoryBudgets: project.categoryBudgets } });
+
+    res.status(200).json({
+      success: true,
+      message: 'Category budgets updated successfully',
+      data: await CategoryService.getBudgetUtilization(project)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
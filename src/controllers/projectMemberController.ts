@@ -0,0 +1,215 @@
+// src/controllers/projectMemberController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { ProjectAccessService } from '../services/projectAccess.service';
+import { ProjectMemberService } from '../services/projectMember.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+// List the owner and members of a project
+export const getProjectMembers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'read');
+    const members = await ProjectMemberService.listMembers(project);
+
+    res.status(200).json({
+      success: true,
+      data: members
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Invite someone by email as editor or viewer
+export const inviteProjectMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'manage');
+    const { email, role } = req.body;
+
+    const invitation = await ProjectMemberService.invite(project, email, role, req.user!.id);
+
+    setAuditContext(res, { resourceId: project._id as ObjectId, after: invitation });
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invitation.email}`,
+      data: invitation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the open invitations of a project
+export const getProjectInvitations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'manage');
+    const invitations = await ProjectMemberService.listInvitations(project._id as ObjectId);
+
+    res.status(200).json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Withdraw an open invitation
+export const revokeProjectInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'manage');
+    const invitation = await ProjectMemberService.revokeInvitation(project._id as ObjectId, req.params.invitationId);
+
+    setAuditContext(res, { resourceId: project._id as ObjectId, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a member's role
+export const updateProjectMemberRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, 'manage');
+    const { userId } = req.params;
+
+    await ProjectMemberService.updateMemberRole(project, userId, req.body.role);
+
+    setAuditContext(res, { resourceId: project._id as ObjectId, after: { user: userId, role: req.body.role } });
+
+    res.status(200).json({
+      success: true,
+      message: 'Member role updated',
+      data: { user: userId, role: req.body.role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Remove a member; members may also remove themselves to leave the project
+export const removeProjectMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const leaving = req.user?.id.toString() === userId;
+    const project = await ProjectAccessService.authorize(req.params.id, req.user, leaving ? 'read' : 'manage');
+
+    await ProjectMemberService.removeMember(project, userId, req.user?.id);
+
+    setAuditContext(res, { resourceId: project._id as ObjectId, before: { user: userId } });
+
+    res.status(200).json({
+      success: true,
+      message: leaving ? 'You left the project' : 'Member removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Open project invitations sent to the logged-in user's email
+export const getMyInvitations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitations = await ProjectMemberService.getInvitationsForUser(userId);
+
+    res.status(200).json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Accept an invitation: the project then shows up in the user's projects
+export const acceptInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitation = await ProjectMemberService.respond(req.params.invitationId, userId, true);
+
+    setAuditContext(res, { resourceId: invitation.project, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation accepted',
+      data: { project: invitation.project, role: invitation.role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Decline an invitation
+export const declineInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitation = await ProjectMemberService.respond(req.params.invitationId, userId, false);
+
+    setAuditContext(res, { resourceId: invitation.project, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,103 @@
+// src/controllers/sessionController.ts
+import { Request, Response, NextFunction } from 'express';
+import { SessionService } from '../services/session.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+// List active sessions (devices) of the logged-in user
+export const getMySessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const sessions = await SessionService.getActiveSessions(userId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map(session => ({
+        id: session.sessionId,
+        deviceName: session.deviceName,
+        platform: session.platform,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        pushEnabled: !!session.deviceToken?.isActive,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session.sessionId === req.user?.sessionId
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke one of the user's sessions (signs that device out)
+export const revokeMySession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { sessionId } = req.params;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const revoked = await SessionService.revokeSession(sessionId, 'revoked', userId);
+    if (!revoked) {
+      return next(new ErrorResponse('Session not found', 404));
+    }
+
+    setAuditContext(res, { resourceId: userId, description: `session revoke (${sessionId})` });
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: {
+        id: sessionId,
+        current: sessionId === req.user?.sessionId
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke every session except the current one
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const revoked = await SessionService.revokeAllForUser(userId, 'revoked_others', req.user?.sessionId);
+
+    setAuditContext(res, { resourceId: userId, description: `session revoke_others (${revoked} sessions)` });
+
+    res.status(200).json({
+      success: true,
+      message: `${revoked} other session(s) revoked`,
+      data: {
+        revokedSessions: revoked
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
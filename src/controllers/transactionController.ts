@@ -4,6 +4,13 @@ import mongoose, { Types } from "mongoose";
 import Transaction, { ITransaction } from "../models/transaction.model";
 import Project, { IProject } from "../models/project.model";
 import Party, { IParty } from "../models/party.model";
+import { ErrorResponse } from "../utils/errorResponse";
+import { DomainEventService } from "../services/domainEvent.service";
+import { setAuditContext } from "../middleware/auditMiddleware";
+import { ConvertedTotals, CurrencyService } from "../services/currency.service";
+import { CategoryService } from "../services/category.service";
+import { ProjectAccessService, ProjectPermission } from "../services/projectAccess.service";
+import { ProjectStatusService } from "../services/projectStatus.service";
 
 interface ITransactionRequest extends Request {
   body: {
@@ -11,7 +18,10 @@ interface ITransactionRequest extends Request {
     party: string;
     type: 'income' | 'expense';
     amount: number;
+    currency?: string;
     date?: Date | string;
+    category?: string | null;
+    tags?: string[] | string;
     note?: string;
     fileUrl?: string;
     fileName?: string;
@@ -24,18 +34,193 @@ interface ITransactionRequest extends Request {
     type?: 'income' | 'expense';
     project?: string;
     party?: string;
+    category?: string;
+    tags?: string;
     search?: string;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    interval?: 'day' | 'week' | 'month';
+    currency?: string;
   };
 }
 
 
-// Parameter type ko Types.ObjectId kar dein
-const getProjectsByUser = async (userId: Types.ObjectId): Promise<Types.ObjectId[]> => {
-  const projects = await Project.find({ createdBy: userId }).select('_id');
-  return projects.map(p => p._id as Types.ObjectId);
+// Transactions of projects the user has no access to answer 404 like missing ones
+const authorizeTransactionProject = async (
+  project: Types.ObjectId | IProject,
+  req: Request,
+  permission: ProjectPermission
+): Promise<IProject> => {
+  const loaded = project instanceof Types.ObjectId ? await Project.findById(project) : project;
+  try {
+    return await ProjectAccessService.assertAccess(loaded, req.user, permission);
+  } catch (error) {
+    if (error instanceof ErrorResponse && error.statusCode === 404) {
+      throw new ErrorResponse("Transaction not found", 404);
+    }
+    throw error;
+  }
+};
+
+// $inc payload applying (sign = 1) or reverting (sign = -1) a transaction on project totals
+const getTotalsIncrement = (
+  type: 'income' | 'expense',
+  amount: number,
+  sign: 1 | -1 = 1
+): { totalIncome: number; totalExpense: number; balance: number } => {
+  const value = amount * sign;
+  return type === 'income'
+    ? { totalIncome: value, totalExpense: 0, balance: value }
+    : { totalIncome: 0, totalExpense: value, balance: -value };
+};
+
+// Sum several $inc payloads into one update
+const mergeIncrements = (
+  ...increments: { totalIncome: number; totalExpense: number; balance: number }[]
+): { totalIncome: number; totalExpense: number; balance: number } =>
+  increments.reduce(
+    (acc, curr) => ({
+      totalIncome: acc.totalIncome + curr.totalIncome,
+      totalExpense: acc.totalExpense + curr.totalExpense,
+      balance: acc.balance + curr.balance
+    }),
+    { totalIncome: 0, totalExpense: 0, balance: 0 }
+  );
+
+// Adds category (including subcategories) and tag filters; returns an error message for bad input
+const applyCategoryAndTagFilters = async (
+  filter: any,
+  category?: string,
+  tags?: string
+): Promise<string | null> => {
+  if (category) {
+    if (category === "uncategorized") {
+      filter.category = null;
+    } else if (!Types.ObjectId.isValid(category)) {
+      return "Invalid category ID";
+    } else {
+      filter.category = { $in: await CategoryService.getDescendantIds(category) };
+    }
+  }
+
+  if (tags) {
+    const tagList = CategoryService.normalizeTags(tags);
+    if (!tagList) {
+      return "Invalid tags filter";
+    }
+    if (tagList.length > 0) {
+      filter.tags = { $all: tagList };
+    }
+  }
+
+  return null;
+};
+
+// $dateToString formats for statistics buckets (week is ISO year-week)
+const STATS_INTERVALS: Record<string, string> = {
+  day: "%Y-%m-%d",
+  week: "%G-W%V",
+  month: "%Y-%m"
+};
+
+// Fields a transaction update may change
+const UPDATABLE_TRANSACTION_FIELDS = [
+  'party', 'type', 'amount', 'currency', 'date', 'category', 'tags', 'note', 'fileUrl', 'fileName'
+] as const;
+
+const roundAmount = (value: number): number => Math.round((value || 0) * 100) / 100;
+
+// Amounts of matching transactions reported in one currency
+interface ReportedAmount {
+  expression: any; // aggregation expression for a transaction's amount in the currency
+  filter: any; // the filter without projects whose currency has no exchange rate
+  unconverted: ConvertedTotals['unconverted']; // totals of those projects, in their own currency
+}
+
+// Amounts are kept in their project's currency (convertedAmount; amount on older
+// records), so only projects with matching transactions need a rate, fetched once
+// per currency. Projects whose currency has no rate are left out and totalled apart.
+const getReportedAmount = async (
+  filter: any,
+  projects: Pick<IProject, '_id' | 'currency'>[],
+  currency: string
+): Promise<ReportedAmount> => {
+  const amountInProjectCurrency = { $ifNull: ["$convertedAmount", "$amount"] };
+
+  const matchedProjectIds = new Set(
+    (await Transaction.distinct("project", filter)).map((id: Types.ObjectId) => id.toString())
+  );
+  const matchedProjects = projects.filter(p => matchedProjectIds.has(p._id.toString()));
+  const currencies = [...new Set(matchedProjects.map(p => p.currency))]
+    .filter(projectCurrency => projectCurrency !== currency);
+  const rates = new Map(await Promise.all(currencies.map(async (projectCurrency) => {
+    try {
+      return [projectCurrency, await CurrencyService.getRate(projectCurrency, currency)] as const;
+    } catch (error) {
+      if (error instanceof ErrorResponse && error.statusCode === 422) {
+        return [projectCurrency, null] as const;
+      }
+      throw error;
+    }
+  })));
+
+  const rateBranches = matchedProjects
+    .filter(p => rates.get(p.currency) && rates.get(p.currency) !== 1)
+    .map(p => ({ case: { $eq: ["$project", p._id] }, then: rates.get(p.currency) }));
+  const expression = rateBranches.length > 0
+    ? { $multiply: [amountInProjectCurrency, { $switch: { branches: rateBranches, default: 1 } }] }
+    : amountInProjectCurrency;
+
+  const unconvertedProjects = matchedProjects.filter(p => rates.get(p.currency) === null);
+  if (unconvertedProjects.length === 0) {
+    return { expression, filter, unconverted: [] };
+  }
+
+  const unconvertedIds = unconvertedProjects.map(p => p._id);
+  const rows = await Transaction.aggregate([
+    { $match: { $and: [filter, { project: { $in: unconvertedIds } }] } },
+    {
+      $group: {
+        _id: { project: "$project", type: "$type" },
+        totalAmount: { $sum: amountInProjectCurrency }
+      }
+    }
+  ]);
+
+  const byCurrency = new Map<string, { totalIncome: number; totalExpense: number }>();
+  rows.forEach((row: any) => {
+    const projectCurrency = unconvertedProjects.find(p => p._id.equals(row._id.project))!.currency;
+    const totals = byCurrency.get(projectCurrency) || { totalIncome: 0, totalExpense: 0 };
+    if (row._id.type === 'income') {
+      totals.totalIncome += row.totalAmount;
+    } else {
+      totals.totalExpense += row.totalAmount;
+    }
+    byCurrency.set(projectCurrency, totals);
+  });
+
+  return {
+    expression,
+    filter: { $and: [filter, { project: { $nin: unconvertedIds } }] },
+    unconverted: [...byCurrency].map(([projectCurrency, totals]) => ({
+      currency: projectCurrency,
+      totals: {
+        totalIncome: roundAmount(totals.totalIncome),
+        totalExpense: roundAmount(totals.totalExpense),
+        netAmount: roundAmount(totals.totalIncome - totals.totalExpense)
+      }
+    }))
+  };
 };
+
+const formatTypeStats = (stats: any) => ({
+  totalAmount: roundAmount(stats.totalAmount),
+  count: stats.count,
+  avgAmount: roundAmount(stats.avgAmount),
+  minAmount: roundAmount(stats.minAmount),
+  maxAmount: roundAmount(stats.maxAmount)
+});
+
 // Create a new transaction
 export const createTransaction = async (
   req: ITransactionRequest,
@@ -52,7 +237,7 @@ export const createTransaction = async (
       return;
     }
 
-    const { project, party, type, amount, date, note, fileUrl, fileName } = req.body;
+    const { project, party, type, amount, currency, date, category, tags, note, fileUrl, fileName } = req.body;
 
     if (!project || !party || !type || !amount) {
       res.status(400).json({ 
@@ -78,19 +263,9 @@ export const createTransaction = async (
       return;
     }
 
-    // Check if project exists and belongs to user
-    const projectExists = await Project.findOne({ 
-      _id: project, 
-      createdBy: userId 
-    });
-    
-    if (!projectExists) {
-      res.status(404).json({ 
-        success: false, 
-        message: "Project not found" 
-      });
-      return;
-    }
+    // Check if project exists and the user may edit it
+    const projectExists = await ProjectAccessService.authorize(project, req.user, "write");
+    ProjectStatusService.assertAcceptsTransactions(projectExists);
 
     // Check if party exists and belongs to the same project
     const partyExists = await Party.findOne({ 
@@ -123,6 +298,26 @@ export const createTransaction = async (
       return;
     }
 
+    if (category) {
+      const categoryExists = await CategoryService.findUsableCategory(category, userId, project);
+      if (!categoryExists) {
+        res.status(404).json({ 
+          success: false, 
+          message: "Category not found for this project" 
+        });
+        return;
+      }
+    }
+
+    const transactionTags = CategoryService.normalizeTags(tags);
+    if (!transactionTags) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Tags must be a list of at most 20 strings" 
+      });
+      return;
+    }
+
     let transactionDate = new Date();
     if (date) {
       transactionDate = new Date(date);
@@ -135,41 +330,72 @@ export const createTransaction = async (
       }
     }
 
-    // Calculate net profit based on transaction type
-    let updatedTotalIncome = projectExists.totalIncome || 0;
-    let updatedTotalExpense = projectExists.totalExpense || 0;
-    
-    if (type === 'income') {
-      updatedTotalIncome += amount;
-    } else if (type === 'expense') {
-      updatedTotalExpense += amount;
-    }
-    
+    // Convert into the project currency; project totals are kept in that currency
+    const transactionCurrency = currency
+      ? CurrencyService.normalizeCode(currency)
+      : CurrencyService.normalizeCode(projectExists.currency);
 
-    // Update project totals
-    await Project.findByIdAndUpdate(project, {
-      totalIncome: updatedTotalIncome,
-      totalExpense: updatedTotalExpense,
-      balance: updatedTotalIncome - updatedTotalExpense
-    });
+    if (!CurrencyService.isValidCode(transactionCurrency)) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Currency must be a 3-letter ISO code" 
+      });
+      return;
+    }
 
-    // Create transaction
-    const transaction = await Transaction.create({
-      project: new Types.ObjectId(project),
-      party: new Types.ObjectId(party),
-      type,
+    const conversion = await CurrencyService.convert(
       amount,
-      date: transactionDate,
-      note,
-      fileUrl,
-      fileName,
-      createdBy: userId
+      transactionCurrency,
+      projectExists.currency,
+      transactionDate
+    );
+
+    // Create transaction and update project totals atomically
+    const session = await mongoose.startSession();
+    let transaction!: ITransaction;
+
+    try {
+      await session.withTransaction(async () => {
+        [transaction] = await Transaction.create([{
+          project: new Types.ObjectId(project),
+          party: new Types.ObjectId(party),
+          type,
+          amount,
+          currency: transactionCurrency,
+          exchangeRate: conversion.rate,
+          convertedAmount: conversion.amount,
+          date: transactionDate,
+          category: category || null,
+          tags: transactionTags,
+          note,
+          fileUrl,
+          fileName,
+          createdBy: userId
+        }], { session });
+
+        await Project.updateOne(
+          { _id: project },
+          { $inc: getTotalsIncrement(type, conversion.amount) },
+          { session }
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    setAuditContext(res, { resourceId: transaction._id as Types.ObjectId, after: transaction });
+
+    DomainEventService.emit('transaction.created', {
+      transaction,
+      project: projectExists,
+      actorId: userId
     });
 
     // Populate references for response
     const populatedTransaction = await Transaction.findById(transaction._id)
       .populate('project', 'title code')
       .populate('party', 'name partyType')
+      .populate('category', 'name color parent')
       .populate('createdBy', 'name email');
 
       console.log(populatedTransaction, "populatedTransaction");
@@ -228,6 +454,8 @@ export const getAllTransactions = async (
       type,
       project,
       party,
+      category,
+      tags,
       search,
       sortBy = "date",
       sortOrder = "desc"
@@ -238,27 +466,17 @@ export const getAllTransactions = async (
     const skip = (pageNum - 1) * limitNum;
 
     // Build filter query - only show transactions from user's projects
-    const userProjectIds = await getProjectsByUser(userId);
-    const filter: any = { 
-      isDeleted: false,
-      project: { $in: userProjectIds }
-    };
-    
+    const filter: any = { isDeleted: false };
+    let userProjects: IProject[];
+
     // Filter by specific project if provided
     if (project) {
-      // Verify project belongs to user
-      const userProject = await Project.findOne({ 
-        _id: project, 
-        createdBy: userId 
-      });
-      if (!userProject) {
-        res.status(403).json({ 
-          success: false, 
-          message: "Access denied to this project" 
-        });
-        return;
-      }
+      userProjects = [await ProjectAccessService.authorize(project, req.user, "read")];
       filter.project = new Types.ObjectId(project);
+    } else {
+      const userProjectIds = await ProjectAccessService.getAccessibleProjectIds(req.user!);
+      userProjects = await Project.find({ _id: { $in: userProjectIds } }).select('_id currency');
+      filter.project = { $in: userProjectIds };
     }
 
     // Filter by party if provided
@@ -271,6 +489,15 @@ export const getAllTransactions = async (
       filter.type = type;
     }
 
+    const filterError = await applyCategoryAndTagFilters(filter, category, tags);
+    if (filterError) {
+      res.status(400).json({ 
+        success: false, 
+        message: filterError 
+      });
+      return;
+    }
+
     // Filter by date range if provided
     if (startDate || endDate) {
       filter.date = {};
@@ -304,6 +531,10 @@ export const getAllTransactions = async (
         path: 'party',
         select: 'name partyType'
       })
+      .populate({
+        path: 'category',
+        select: 'name color parent'
+      })
       .populate('createdBy', 'name email')
       .sort(sort)
       .skip(skip)
@@ -312,22 +543,28 @@ export const getAllTransactions = async (
     // Get total count for pagination
     const total = await Transaction.countDocuments(filter);
 
-    // Calculate summary stats
+    // Calculate summary stats in the project's currency, or the reporting currency
+    // when the list spans several projects
+    const summaryCurrency = project
+      ? userProjects[0].currency
+      : await CurrencyService.getReportingCurrency(userId, req.query.currency);
+    const reported = await getReportedAmount(filter, userProjects, summaryCurrency);
+
     const summary = await Transaction.aggregate([
-      { $match: filter },
+      { $match: reported.filter },
       {
         $group: {
           _id: "$type",
-          totalAmount: { $sum: "$amount" },
+          totalAmount: { $sum: reported.expression },
           count: { $sum: 1 }
         }
       }
     ]);
 
     // Format summary
-    const incomeTotal = summary.find(s => s._id === 'income')?.totalAmount || 0;
-    const expenseTotal = summary.find(s => s._id === 'expense')?.totalAmount || 0;
-    const netAmount = incomeTotal - expenseTotal;
+    const incomeTotal = roundAmount(summary.find(s => s._id === 'income')?.totalAmount);
+    const expenseTotal = roundAmount(summary.find(s => s._id === 'expense')?.totalAmount);
+    const netAmount = roundAmount(incomeTotal - expenseTotal);
 
     res.json({
       success: true,
@@ -339,10 +576,13 @@ export const getAllTransactions = async (
         pages: Math.ceil(total / limitNum)
       },
       summary: {
+        currency: summaryCurrency,
         totalIncome: incomeTotal,
         totalExpense: expenseTotal,
         netAmount,
-        totalTransactions: total
+        totalTransactions: total,
+        // Totals of projects whose currency has no exchange rate to the summary currency
+        unconverted: reported.unconverted
       }
     });
 
@@ -377,14 +617,10 @@ export const getTransactionById = async (
       return;
     }
 
-    // Check if transaction belongs to user's project
-    const transaction = await Transaction.findOne({
-      _id: id,
-      isDeleted: false,
-      project: { $in: await getProjectsByUser(userId) }
-    })
-      .populate('project', 'title code')
+    const transaction = await Transaction.findOne({ _id: id, isDeleted: false })
+      .populate('project', 'title code createdBy')
       .populate('party', 'name partyType email phone address')
+      .populate('category', 'name color parent')
       .populate('createdBy', 'name email');
 
     if (!transaction) {
@@ -395,6 +631,9 @@ export const getTransactionById = async (
       return;
     }
 
+    // Check if transaction belongs to a project the user may view
+    await authorizeTransactionProject(transaction.project as unknown as IProject, req, "read");
+
     res.json({
       success: true,
       data: transaction
@@ -427,7 +666,9 @@ export const getTransactionsByProject = async (
       limit = "20",
       type,
       startDate,
-      endDate
+      endDate,
+      category,
+      tags
     } = req.query;
 
     if (!Types.ObjectId.isValid(projectId)) {
@@ -442,19 +683,8 @@ export const getTransactionsByProject = async (
     const limitNum = parseInt(limit, 10);
     const skip = (pageNum - 1) * limitNum;
 
-    // Check if project exists and belongs to user
-    const projectExists = await Project.findOne({ 
-      _id: projectId, 
-      createdBy: userId 
-    });
-    
-    if (!projectExists) {
-      res.status(404).json({ 
-        success: false, 
-        message: "Project not found" 
-      });
-      return;
-    }
+    // Check if project exists and the user may view it
+    const projectExists = await ProjectAccessService.authorize(projectId, req.user, "read");
 
     // Build filter query
     const filter: any = { 
@@ -466,6 +696,15 @@ export const getTransactionsByProject = async (
       filter.type = type;
     }
 
+    const filterError = await applyCategoryAndTagFilters(filter, category, tags);
+    if (filterError) {
+      res.status(400).json({ 
+        success: false, 
+        message: filterError 
+      });
+      return;
+    }
+
     if (startDate || endDate) {
       filter.date = {};
       if (startDate) {
@@ -482,6 +721,7 @@ export const getTransactionsByProject = async (
   'party',
   'name partyType profileImage description contact.email contact.phone contact.address'
 )
+  .populate('category', 'name color parent')
   .populate('createdBy', 'name email')
   .sort({ date: -1 })
   .skip(Number(skip))
@@ -494,13 +734,13 @@ console.log('Fetched Transactions:', transactions);
     // Get total count
     const total = await Transaction.countDocuments(filter);
 
-    // Calculate summary for this project
+    // Calculate summary for this project, in the project's currency
     const summary = await Transaction.aggregate([
       { $match: filter },
       {
         $group: {
           _id: "$type",
-          totalAmount: { $sum: "$amount" },
+          totalAmount: { $sum: { $ifNull: ["$convertedAmount", "$amount"] } },
           count: { $sum: 1 }
         }
       }
@@ -529,6 +769,7 @@ console.log('Fetched Transactions:', transactions);
         pages: Math.ceil(total / limitNum)
       },
       summary: {
+        currency: projectExists.currency,
         totalIncome: incomeTotal,
         totalExpense: expenseTotal,
         netAmount,
@@ -558,7 +799,12 @@ export const updateTransaction = async (
     }
 
     const { id } = req.params;
-    const updates = req.body;
+    // Ledger fields (project, createdBy, isDeleted, exchangeRate, convertedAmount) are owned by the transaction itself
+    const updates = Object.fromEntries(
+      UPDATABLE_TRANSACTION_FIELDS
+        .filter(field => req.body[field] !== undefined)
+        .map(field => [field, req.body[field]])
+    ) as Partial<ITransactionRequest['body']>;
 
     if (!Types.ObjectId.isValid(id)) {
       res.status(400).json({ 
@@ -568,12 +814,8 @@ export const updateTransaction = async (
       return;
     }
 
-    // Find existing transaction and check ownership
-    const existingTransaction = await Transaction.findOne({
-      _id: id,
-      isDeleted: false,
-      project: { $in: await getProjectsByUser(userId) }
-    });
+    // Find existing transaction and check access to its project
+    const existingTransaction = await Transaction.findOne({ _id: id, isDeleted: false });
 
     if (!existingTransaction) {
       res.status(404).json({ 
@@ -582,6 +824,8 @@ export const updateTransaction = async (
       });
       return;
     }
+    const transactionProject = await authorizeTransactionProject(existingTransaction.project, req, "write");
+    ProjectStatusService.assertAcceptsTransactions(transactionProject);
 
     // If type is being updated, validate with party type
     if (updates.type !== undefined) {
@@ -606,50 +850,144 @@ export const updateTransaction = async (
       }
     }
 
-    // If amount is being updated, update project totals
-    if (updates.amount !== undefined || updates.type !== undefined) {
-      const project = await Project.findById(existingTransaction.project);
-      
-      if (project) {
-        let updatedTotalIncome = project.totalIncome || 0;
-        let updatedTotalExpense = project.totalExpense || 0;
-        
-        // Remove old transaction amount
-        if (existingTransaction.type === 'income') {
-          updatedTotalIncome -= existingTransaction.amount;
-        } else if (existingTransaction.type === 'expense') {
-          updatedTotalExpense -= existingTransaction.amount;
-        }
-        
-        // Add new transaction amount
-        const newType = updates.type !== undefined ? updates.type : existingTransaction.type;
-        const newAmount = updates.amount !== undefined ? updates.amount : existingTransaction.amount;
-        
-        if (newType === 'income') {
-          updatedTotalIncome += newAmount;
-        } else if (newType === 'expense') {
-          updatedTotalExpense += newAmount;
-        }
-        
-        const updatedNetProfit = updatedTotalIncome - updatedTotalExpense;
-
-        // Update project
-        await Project.findByIdAndUpdate(project._id, {
-          totalIncome: updatedTotalIncome,
-          totalExpense: updatedTotalExpense,
-          netProfit: updatedNetProfit
+    if (updates.amount !== undefined && (typeof updates.amount !== 'number' || updates.amount <= 0)) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Amount must be greater than 0" 
+      });
+      return;
+    }
+
+    if (updates.currency !== undefined && !CurrencyService.isValidCode(updates.currency)) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Currency must be a 3-letter ISO code" 
+      });
+      return;
+    }
+
+    if (updates.date !== undefined && isNaN(new Date(updates.date).getTime())) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Invalid date format" 
+      });
+      return;
+    }
+
+    if (updates.category === '') {
+      updates.category = null;
+    }
+
+    if (updates.category) {
+      const categoryExists = await CategoryService.findUsableCategory(
+        updates.category,
+        userId,
+        existingTransaction.project.toString()
+      );
+      if (!categoryExists) {
+        res.status(404).json({ 
+          success: false, 
+          message: "Category not found for this project" 
+        });
+        return;
+      }
+    }
+
+    if (updates.tags !== undefined) {
+      const tags = CategoryService.normalizeTags(updates.tags);
+      if (!tags) {
+        res.status(400).json({ 
+          success: false, 
+          message: "Tags must be a list of at most 20 strings" 
         });
+        return;
       }
+      updates.tags = tags;
     }
 
-    // Update transaction
-    Object.assign(existingTransaction, updates);
-    await existingTransaction.save();
+    if (updates.currency !== undefined) {
+      updates.currency = CurrencyService.normalizeCode(updates.currency);
+    }
+
+    const before = existingTransaction.toObject();
+    const totalsChanged = updates.amount !== undefined
+      || updates.type !== undefined
+      || updates.currency !== undefined
+      || updates.date !== undefined;
+    let updated!: ITransaction;
+
+    const projectCurrency = (await Project.findById(existingTransaction.project).select('currency'))?.currency
+      || CurrencyService.normalizeCode(existingTransaction.currency);
+
+    // Replace old amount with new amount in project totals, together with the transaction update.
+    // The transaction is re-read inside the session so retries after a write conflict use fresh values.
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        const current = await Transaction.findOne({ _id: id, isDeleted: false }).session(session);
+        if (!current) {
+          throw new ErrorResponse("Transaction not found", 404);
+        }
+
+        // Legacy transactions have no convertedAmount: they were booked in project currency
+        const previous = {
+          type: current.type,
+          convertedAmount: current.convertedAmount ?? current.amount
+        };
+        Object.assign(current, updates);
+
+        if (totalsChanged) {
+          const conversion = await CurrencyService.convert(
+            current.amount,
+            current.currency || projectCurrency,
+            projectCurrency,
+            current.date
+          );
+          current.currency = current.currency || projectCurrency;
+          current.exchangeRate = conversion.rate;
+          current.convertedAmount = conversion.amount;
+        }
+
+        await current.save({ session });
+
+        if (totalsChanged) {
+          await Project.updateOne(
+            { _id: current.project },
+            {
+              $inc: mergeIncrements(
+                getTotalsIncrement(previous.type, previous.convertedAmount, -1),
+                getTotalsIncrement(current.type, current.convertedAmount)
+              )
+            },
+            { session }
+          );
+        }
+
+        updated = current;
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    setAuditContext(res, { before, after: updated });
+
+    const project = totalsChanged
+      ? await Project.findById(updated.project)
+      : null;
+
+    if (project) {
+      DomainEventService.emit('transaction.updated', {
+        transaction: updated,
+        project,
+        actorId: userId
+      });
+    }
 
     // Get updated transaction with populated fields
     const updatedTransaction = await Transaction.findById(id)
       .populate('project', 'title code')
       .populate('party', 'name partyType')
+      .populate('category', 'name color parent')
       .populate('createdBy', 'name email');
 
     res.json({
@@ -697,12 +1035,8 @@ export const deleteTransaction = async (
       return;
     }
 
-    // Find transaction and check ownership
-    const transaction = await Transaction.findOne({
-      _id: id,
-      isDeleted: false,
-      project: { $in: await getProjectsByUser(userId) }
-    });
+    // Find transaction and check access to its project
+    const transaction = await Transaction.findOne({ _id: id, isDeleted: false });
 
     if (!transaction) {
       res.status(404).json({ 
@@ -711,31 +1045,48 @@ export const deleteTransaction = async (
       });
       return;
     }
+    const transactionProject = await authorizeTransactionProject(transaction.project, req, "write");
+    ProjectStatusService.assertAcceptsTransactions(transactionProject);
+
+    const before = transaction.toObject();
+
+    // Soft delete and subtract this transaction from project totals atomically
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        const result = await Transaction.updateOne(
+          { _id: transaction._id, isDeleted: false },
+          { $set: { isDeleted: true } },
+          { session }
+        );
+
+        // Already deleted by a concurrent request: totals were adjusted there
+        if (result.modifiedCount === 0) {
+          return;
+        }
 
-    // Update project totals (subtract this transaction)
-    const project = await Project.findById(transaction.project);
-    if (project) {
-      let updatedTotalIncome = project.totalIncome || 0;
-      let updatedTotalExpense = project.totalExpense || 0;
-      
-      if (transaction.type === 'income') {
-        updatedTotalIncome -= transaction.amount;
-      } else if (transaction.type === 'expense') {
-        updatedTotalExpense -= transaction.amount;
-      }
-      
-      const updatedNetProfit = updatedTotalIncome - updatedTotalExpense;
-
-      await Project.findByIdAndUpdate(project._id, {
-        totalIncome: updatedTotalIncome,
-        totalExpense: updatedTotalExpense,
-        netProfit: updatedNetProfit
+        await Project.updateOne(
+          { _id: transaction.project },
+          { $inc: getTotalsIncrement(transaction.type, transaction.convertedAmount ?? transaction.amount, -1) },
+          { session }
+        );
       });
+    } finally {
+      await session.endSession();
     }
 
-    // Soft delete
     transaction.isDeleted = true;
-    await transaction.save();
+    const project = await Project.findById(transaction.project);
+
+    setAuditContext(res, { before, after: transaction });
+
+    if (project) {
+      DomainEventService.emit('transaction.deleted', {
+        transaction,
+        project,
+        actorId: userId
+      });
+    }
 
     res.json({
       success: true,
@@ -747,144 +1098,258 @@ export const deleteTransaction = async (
   }
 };
 
-// Get transaction statistics
-// export const getTransactionStats = async (
-//   req: ITransactionRequest,
-//   res: Response,
-//   next: NextFunction
-// ): Promise<void> => {
-//   try {
-//     const userId = req.user?.id;
-//     if (!userId) {
-//       res.status(401).json({ 
-//         success: false, 
-//         message: "Unauthorized" 
-//       });
-//       return;
-//     }
-
-//     const { projectId, startDate, endDate } = req.query;
-
-//     // Build filter - only user's projects
-//     const userProjectIds = await getProjectsByUser(userId);
-//     const filter: any = { 
-//       isDeleted: false,
-//       project: { $in: userProjectIds }
-//     };
-    
-//     if (projectId && Types.ObjectId.isValid(projectId as string)) {
-//       // Verify project belongs to user
-//       const userProject = await Project.findOne({ 
-//         _id: projectId, 
-//         createdBy: userId 
-//       });
-//       if (!userProject) {
-//         res.status(403).json({ 
-//           success: false, 
-//           message: "Access denied to this project" 
-//         });
-//         return;
-//       }
-//       filter.project = new Types.ObjectId(projectId as string);
-//     }
-
-//     if (startDate || endDate) {
-//       filter.date = {};
-//       if (startDate) {
-//         filter.date.$gte = new Date(startDate as string);
-//       }
-//       if (endDate) {
-//         filter.date.$lte = new Date(endDate as string);
-//       }
-//     }
-
-//     // Get total statistics
-//     const stats = await Transaction.aggregate([
-//       { $match: filter },
-//       {
-//         $group: {
-//           _id: "$type",
-//           totalAmount: { $sum: "$amount" },
-//           count: { $sum: 1 },
-//           avgAmount: { $avg: "$amount" }
-//         }
-//       }
-//     ]);
-
-//     // Get monthly breakdown
-//     const monthlyBreakdown = await Transaction.aggregate([
-//       { $match: filter },
-//       {
-//         $group: {
-//           _id: {
-//             year: { $year: "$date" },
-//             month: { $month: "$date" },
-//             type: "$type"
-//           },
-//           totalAmount: { $sum: "$amount" },
-//           count: { $sum: 1 }
-//         }
-//       },
-//       { $sort: { "_id.year": -1, "_id.month": -1 } },
-//       { $limit: 12 }
-//     ]);
-
-//     // Get top parties (clients for income, vendors for expense)
-//     const topParties = await Transaction.aggregate([
-//       { $match: filter },
-//       {
-//         $group: {
-//           _id: "$party",
-//           totalAmount: { $sum: "$amount" },
-//           count: { $sum: 1 }
-//         }
-//       },
-//       { $sort: { totalAmount: -1 } },
-//       { $limit: 5 },
-//       {
-//         $lookup: {
-//           from: "parties",
-//           localField: "_id",
-//           foreignField: "_id",
-//           as: "party"
-//         }
-//       },
-//       { $unwind: "$party" },
-//       {
-//         $project: {
-//           partyId: "$_id",
-//           partyName: "$party.name",
-//           partyType: "$party.partyType",
-//           totalAmount: 1,
-//           count: 1
-//         }
-//       }
-//     ]);
-
-//     // Format response
-//     const incomeStats = stats.find(s => s._id === 'income') || { totalAmount: 0, count: 0, avgAmount: 0 };
-//     const expenseStats = stats.find(s => s._id === 'expense') || { totalAmount: 0, count: 0, avgAmount: 0 };
-//     const netAmount = incomeStats.totalAmount - expenseStats.totalAmount;
-
-//     res.json({
-//       success: true,
-//       data: {
-//         summary: {
-//           totalIncome: incomeStats.totalAmount,
-//           totalExpense: expenseStats.totalAmount,
-//           netAmount,
-//           totalTransactions: incomeStats.count + expenseStats.count
-//         },
-//         averages: {
-//           avgIncome: incomeStats.avgAmount,
-//           avgExpense: expenseStats.avgAmount
-//         },
-//         monthlyBreakdown,
-//         topParties
-//       }
-//     });
-
-//   } catch (error: any) {
-//     next(error);
-//   }
-// };
\ No newline at end of file
+// Get transaction statistics: totals by type, party, period and project
+export const getTransactionStats = async (
+  req: ITransactionRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({ 
+        success: false, 
+        message: "Unauthorized" 
+      });
+      return;
+    }
+
+    const {
+      startDate,
+      endDate,
+      type,
+      project,
+      party,
+      category,
+      tags,
+      interval = "month",
+      limit = "10"
+    } = req.query;
+
+    if (!STATS_INTERVALS[interval]) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Interval must be one of day, week or month" 
+      });
+      return;
+    }
+
+    // Same scoping and filters as getAllTransactions
+    const filter: any = { isDeleted: false };
+    let userProjects: IProject[];
+
+    if (project) {
+      userProjects = [await ProjectAccessService.authorize(project, req.user, "read")];
+      filter.project = new Types.ObjectId(project);
+    } else {
+      const userProjectIds = await ProjectAccessService.getAccessibleProjectIds(req.user!);
+      userProjects = await Project.find({ _id: { $in: userProjectIds } }).select('_id currency');
+      filter.project = { $in: userProjectIds };
+    }
+
+    if (party) {
+      filter.party = new Types.ObjectId(party);
+    }
+
+    if (type) {
+      filter.type = type;
+    }
+
+    const filterError = await applyCategoryAndTagFilters(filter, category, tags);
+    if (filterError) {
+      res.status(400).json({ 
+        success: false, 
+        message: filterError 
+      });
+      return;
+    }
+
+    if (startDate || endDate) {
+      filter.date = {};
+      if (startDate) {
+        filter.date.$gte = new Date(startDate);
+      }
+      if (endDate) {
+        filter.date.$lte = new Date(endDate);
+      }
+    }
+
+    // Amounts are stored in each project's currency; report them in one currency.
+    // A single-project query keeps that project's currency.
+    const selectedProject = project ? userProjects.find(p => p._id.toString() === project) : null;
+    const reportingCurrency = selectedProject
+      ? selectedProject.currency
+      : await CurrencyService.getReportingCurrency(userId, req.query.currency);
+
+    const reported = await getReportedAmount(filter, userProjects, reportingCurrency);
+
+    const limitNum = Math.min(Math.max(parseInt(limit, 10) || 10, 1), 100);
+
+    const [stats] = await Transaction.aggregate([
+      { $match: reported.filter },
+      { $addFields: { reportedAmount: reported.expression } },
+      {
+        $facet: {
+          byType: [
+            {
+              $group: {
+                _id: "$type",
+                totalAmount: { $sum: "$reportedAmount" },
+                count: { $sum: 1 },
+                avgAmount: { $avg: "$reportedAmount" },
+                minAmount: { $min: "$reportedAmount" },
+                maxAmount: { $max: "$reportedAmount" }
+              }
+            }
+          ],
+          byPeriod: [
+            {
+              $group: {
+                _id: {
+                  period: { $dateToString: { format: STATS_INTERVALS[interval], date: "$date" } },
+                  type: "$type"
+                },
+                totalAmount: { $sum: "$reportedAmount" },
+                count: { $sum: 1 }
+              }
+            },
+            { $sort: { "_id.period": 1 } }
+          ],
+          byParty: [
+            {
+              $group: {
+                _id: { party: "$party", type: "$type" },
+                totalAmount: { $sum: "$reportedAmount" },
+                count: { $sum: 1 },
+                avgAmount: { $avg: "$reportedAmount" }
+              }
+            },
+            { $sort: { totalAmount: -1 } },
+            { $limit: limitNum },
+            {
+              $lookup: {
+                from: "parties",
+                localField: "_id.party",
+                foreignField: "_id",
+                as: "party"
+              }
+            },
+            { $unwind: { path: "$party", preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                _id: 0,
+                partyId: "$_id.party",
+                partyName: "$party.name",
+                partyType: "$party.partyType",
+                type: "$_id.type",
+                totalAmount: 1,
+                count: 1,
+                avgAmount: 1
+              }
+            }
+          ],
+          byProject: [
+            {
+              $group: {
+                _id: "$project",
+                totalIncome: { $sum: { $cond: [{ $eq: ["$type", "income"] }, "$reportedAmount", 0] } },
+                totalExpense: { $sum: { $cond: [{ $eq: ["$type", "expense"] }, "$reportedAmount", 0] } },
+                count: { $sum: 1 },
+                avgAmount: { $avg: "$reportedAmount" }
+              }
+            },
+            {
+              $lookup: {
+                from: "projects",
+                localField: "_id",
+                foreignField: "_id",
+                as: "project"
+              }
+            },
+            { $unwind: { path: "$project", preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                _id: 0,
+                projectId: "$_id",
+                title: "$project.title",
+                code: "$project.code",
+                totalIncome: 1,
+                totalExpense: 1,
+                netAmount: { $subtract: ["$totalIncome", "$totalExpense"] },
+                count: 1,
+                avgAmount: 1
+              }
+            },
+            { $sort: { totalExpense: -1 } }
+          ]
+        }
+      }
+    ]);
+
+    const emptyType = { totalAmount: 0, count: 0, avgAmount: 0, minAmount: 0, maxAmount: 0 };
+    const incomeStats = stats.byType.find((s: any) => s._id === 'income') || emptyType;
+    const expenseStats = stats.byType.find((s: any) => s._id === 'expense') || emptyType;
+
+    // One bucket per period with income and expense side by side
+    const buckets = new Map<string, any>();
+    stats.byPeriod.forEach((row: any) => {
+      const bucket = buckets.get(row._id.period) || {
+        period: row._id.period,
+        income: 0,
+        expense: 0,
+        incomeCount: 0,
+        expenseCount: 0
+      };
+      bucket[row._id.type] = roundAmount(row.totalAmount);
+      bucket[`${row._id.type}Count`] = row.count;
+      buckets.set(row._id.period, bucket);
+    });
+
+    res.json({
+      success: true,
+      data: {
+        currency: reportingCurrency,
+        summary: {
+          totalIncome: roundAmount(incomeStats.totalAmount),
+          totalExpense: roundAmount(expenseStats.totalAmount),
+          netAmount: roundAmount(incomeStats.totalAmount - expenseStats.totalAmount),
+          totalTransactions: incomeStats.count + expenseStats.count
+        },
+        // Totals of projects whose currency has no exchange rate to the reporting currency;
+        // they are left out of every other figure
+        unconverted: reported.unconverted,
+        byType: {
+          income: formatTypeStats(incomeStats),
+          expense: formatTypeStats(expenseStats)
+        },
+        averages: {
+          avgIncome: roundAmount(incomeStats.avgAmount),
+          avgExpense: roundAmount(expenseStats.avgAmount)
+        },
+        timeline: {
+          interval,
+          buckets: [...buckets.values()].map(bucket => ({
+            ...bucket,
+            net: roundAmount(bucket.income - bucket.expense),
+            count: bucket.incomeCount + bucket.expenseCount
+          }))
+        },
+        byParty: stats.byParty.map((row: any) => ({
+          ...row,
+          totalAmount: roundAmount(row.totalAmount),
+          avgAmount: roundAmount(row.avgAmount)
+        })),
+        byProject: stats.byProject.map((row: any) => ({
+          ...row,
+          totalIncome: roundAmount(row.totalIncome),
+          totalExpense: roundAmount(row.totalExpense),
+          netAmount: roundAmount(row.netAmount),
+          avgAmount: roundAmount(row.avgAmount)
+        }))
+      }
+    });
+
+  } catch (error: any) {
+    next(error);
+  }
+};
@@ -0,0 +1,200 @@
+// src/controllers/twoFactorController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import User from '../models/user.model';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+// Get 2FA status of the logged-in user
+export const getTwoFactorStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const auth = await TwoFactorService.findAuthForUser(req.user!.id);
+    if (!auth) {
+      return next(new ErrorResponse('Authentication record not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await TwoFactorService.getStatus(auth._id as ObjectId)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start 2FA enrollment: returns the secret and otpauth:// URI for the authenticator app
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const [user, auth] = await Promise.all([
+      User.findById(req.user!.id).select('email'),
+      TwoFactorService.findAuthForUser(req.user!.id)
+    ]);
+
+    if (!user || !auth) {
+      return next(new ErrorResponse('Authentication record not found', 404));
+    }
+
+    const enrollment = await TwoFactorService.startEnrollment(auth, user.email);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code or enter the secret in your authenticator app, then confirm with a code',
+      data: enrollment
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm enrollment with a code; recovery codes are only shown in this response
+export const confirmTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return next(new ErrorResponse('Authentication code is required', 400));
+    }
+
+    const auth = await TwoFactorService.findAuthForUser(req.user!.id);
+    if (!auth) {
+      return next(new ErrorResponse('Authentication record not found', 404));
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(auth._id as ObjectId, String(code));
+
+    setAuditContext(res, { resourceId: req.user!.id, description: 'two-factor authentication enabled' });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes in a safe place.',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Disable 2FA; requires a current code or a recovery code
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, recoveryCode } = req.body;
+
+    if (!code && !recoveryCode) {
+      return next(new ErrorResponse('An authentication code or recovery code is required', 400));
+    }
+
+    const auth = await TwoFactorService.findAuthForUser(req.user!.id);
+    if (!auth?.twoFactor?.enabled) {
+      return next(new ErrorResponse('Two-factor authentication is not enabled', 400));
+    }
+
+    const verified = await TwoFactorService.verify(auth._id as ObjectId, { code, recoveryCode });
+    if (!verified) {
+      return next(new ErrorResponse('Invalid authentication code', 400));
+    }
+
+    await TwoFactorService.disable(auth._id as ObjectId);
+
+    setAuditContext(res, { resourceId: req.user!.id, description: 'two-factor authentication disabled' });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace recovery codes; requires a current code
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return next(new ErrorResponse('Authentication code is required', 400));
+    }
+
+    const auth = await TwoFactorService.findAuthForUser(req.user!.id);
+    if (!auth?.twoFactor?.enabled) {
+      return next(new ErrorResponse('Two-factor authentication is not enabled', 400));
+    }
+
+    const verified = await TwoFactorService.verify(auth._id as ObjectId, { code });
+    if (!verified) {
+      return next(new ErrorResponse('Invalid authentication code', 400));
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(auth._id as ObjectId);
+
+    setAuditContext(res, { resourceId: req.user!.id, description: 'two-factor recovery codes regenerated' });
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Reset a user's 2FA, e.g. after they lost their device and recovery codes (admin only)
+export const resetUserTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return next(new ErrorResponse('Invalid user ID format', 400));
+    }
+
+    const auth = await TwoFactorService.findAuthForUser(id);
+    if (!auth) {
+      return next(new ErrorResponse('User not found', 404));
+    }
+
+    const wasEnabled = !!auth.twoFactor?.enabled;
+    await TwoFactorService.disable(auth._id as ObjectId);
+
+    setAuditContext(res, {
+      before: { twoFactorEnabled: wasEnabled },
+      after: { twoFactorEnabled: false }
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication reset successfully',
+      data: {
+        id,
+        wasEnabled
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
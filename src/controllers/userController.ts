@@ -3,6 +3,10 @@ import { Request, Response, NextFunction } from "express";
 import User, { IUser } from "../models/user.model";
 import { ObjectId } from "mongodb";
 import { ErrorResponse } from "../utils/errorResponse";
+import { setAuditContext } from "../middleware/auditMiddleware";
+import { CurrencyService } from "../services/currency.service";
+import { AccountService } from "../services/account.service";
+import { UserStatusService } from "../services/userStatus.service";
 
 // Get all users (admin only)
 export const getAllUsers = async (
@@ -198,6 +202,8 @@ export const createUser = async (
 
     await user.save();
 
+    setAuditContext(res, { resourceId: user._id, after: user });
+
     // Remove sensitive data from response
     const userResponse = user.toObject();
     delete (userResponse as any).__v;
@@ -283,12 +289,9 @@ export const updateUser = async (
       updateFields.role = updateData.role;
     }
 
-    // Update isActive
-    if (updateData.isActive !== undefined) {
-      if (typeof updateData.isActive !== 'boolean') {
-        return next(new ErrorResponse('isActive must be a boolean value', 400));
-      }
-      updateFields.isActive = updateData.isActive;
+    // isActive goes through UserStatusService (sign-out, notification)
+    if (updateData.isActive !== undefined && typeof updateData.isActive !== 'boolean') {
+      return next(new ErrorResponse('isActive must be a boolean value', 400));
     }
 
     // Update other fields
@@ -321,6 +324,14 @@ export const updateUser = async (
       updateFields.bio = updateData.bio?.trim() || undefined;
     }
 
+    if (updateData.isActive !== undefined && updateData.isActive !== existingUser.isActive) {
+      await UserStatusService.setStatus(
+        id,
+        { isActive: updateData.isActive, reason: updateData.statusReason, until: updateData.suspendedUntil },
+        req.user?.id
+      );
+    }
+
     // Update user
     const updatedUser = await User.findByIdAndUpdate(
       id,
@@ -330,6 +341,8 @@ export const updateUser = async (
       .select('-__v')
       .lean();
 
+    setAuditContext(res, { before: existingUser, after: updatedUser });
+
     res.status(200).json({
       success: true,
       message: 'User updated successfully',
@@ -370,24 +383,9 @@ export const updateCurrentUser = async (
       updateFields.name = updateData.name.trim();
     }
 
-    // Update email with validation and duplicate check
-    if (updateData.email !== undefined && updateData.email !== existingUser.email) {
-      const email = updateData.email.toLowerCase().trim();
-      const emailRegex = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
-      
-      if (!emailRegex.test(email)) {
-        return next(new ErrorResponse('Please provide a valid email address', 400));
-      }
-
-      const duplicateUser = await User.findOne({ 
-        email,
-        _id: { $ne: userId }
-      });
-      
-      if (duplicateUser) {
-        return next(new ErrorResponse('Email already registered', 409));
-      }
-      updateFields.email = email;
+    // Email changes have to be confirmed from the new address
+    if (updateData.email !== undefined && String(updateData.email).toLowerCase().trim() !== existingUser.email) {
+      return next(new ErrorResponse('Use POST /users/me/email to change your email address', 400));
     }
 
     // Update phone with validation
@@ -403,6 +401,14 @@ export const updateCurrentUser = async (
       }
     }
 
+    // Update reporting currency used for statistics
+    if (updateData.reportingCurrency !== undefined) {
+      if (!CurrencyService.isValidCode(updateData.reportingCurrency)) {
+        return next(new ErrorResponse('Reporting currency must be a 3-letter ISO code', 400));
+      }
+      updateFields.reportingCurrency = CurrencyService.normalizeCode(updateData.reportingCurrency);
+    }
+
     // Update profile image
     if (updateData.profileImage !== undefined) {
       if (updateData.profileImage === '') {
@@ -484,6 +490,8 @@ export const updateCurrentUser = async (
 
     console.log(updatedUser, "this is updated data");
 
+    setAuditContext(res, { resourceId: userId, before: existingUser, after: updatedUser });
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully',
@@ -494,6 +502,181 @@ export const updateCurrentUser = async (
   }
 };
 
+// Change the logged-in user's password; other sessions are signed out
+export const changeMyPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const signedOutSessions = await AccountService.changePassword(userId, req.body, {
+      sessionId: req.user?.sessionId,
+      ipAddress: req.ip
+    });
+
+    setAuditContext(res, { resourceId: userId, description: 'password changed' });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed successfully',
+      data: { signedOutSessions }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start an email change: a code is sent to the new address
+export const requestEmailChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const pending = await AccountService.requestEmailChange(userId, req.body.email, req.body.reauth, {
+      ipAddress: req.ip
+    });
+
+    setAuditContext(res, { resourceId: userId, description: `email change to ${pending.email} requested` });
+
+    res.status(200).json({
+      success: true,
+      message: `A confirmation code has been sent to ${pending.email}`,
+      data: pending
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Finish an email change with the code from the new address
+export const confirmEmailChange = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const result = await AccountService.confirmEmailChange(userId, req.body.otp, {
+      sessionId: req.user?.sessionId
+    });
+
+    setAuditContext(res, {
+      resourceId: userId,
+      before: { email: result.previousEmail },
+      after: { email: result.email }
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email address changed successfully',
+      data: {
+        email: result.email,
+        signedOutSessions: result.signedOutSessions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Download everything the logged-in user owns as a zip archive (JSON + CSV)
+export const exportMyData = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const archive = await AccountService.exportData(userId);
+    const fileName = `account-export-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Content-Length', archive.length.toString());
+    res.status(200).send(archive);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Schedule deletion of the logged-in user's account after the grace period
+export const deleteMyAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const deletionScheduledAt = await AccountService.scheduleDeletion(userId, req.body?.reauth, {
+      ipAddress: req.ip
+    });
+
+    setAuditContext(res, { resourceId: userId, after: { deletionScheduledAt } });
+
+    res.status(200).json({
+      success: true,
+      message: `Your account will be deleted on ${deletionScheduledAt.toISOString()}`,
+      data: { deletionScheduledAt }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Keep the account: cancel a scheduled deletion
+export const cancelMyAccountDeletion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    await AccountService.cancelDeletion(userId);
+
+    setAuditContext(res, { resourceId: userId, after: { deletionScheduledAt: null } });
+
+    res.status(200).json({
+      success: true,
+      message: 'Account deletion cancelled'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Delete user
 export const deleteUser = async (
   req: Request,
@@ -519,7 +702,9 @@ export const deleteUser = async (
       return next(new ErrorResponse('You cannot delete your own account', 400));
     }
 
-    await User.findByIdAndDelete(id);
+    const deleted = await AccountService.deleteAccount(id);
+
+    setAuditContext(res, { before: user });
 
     res.status(200).json({
       success: true,
@@ -527,7 +712,8 @@ export const deleteUser = async (
       data: {
         id: user._id,
         name: user.name,
-        email: user.email
+        email: user.email,
+        deleted
       }
     });
   } catch (error) {
@@ -535,7 +721,7 @@ export const deleteUser = async (
   }
 };
 
-// Toggle user active status
+// Toggle user active status; deactivating takes an optional `reason` and `until` (suspension end)
 export const toggleUserStatus = async (
   req: Request,
   res: Response,
@@ -561,18 +747,23 @@ export const toggleUserStatus = async (
     }
 
     const newStatus = !user.isActive;
+    const { reason, until } = req.body || {};
 
-    const updatedUser = await User.findByIdAndUpdate(
+    if (reason !== undefined && typeof reason !== 'string') {
+      return next(new ErrorResponse('Reason must be a string', 400));
+    }
+
+    const updatedUser = (await UserStatusService.setStatus(
       id,
-      { $set: { isActive: newStatus } },
-      { new: true, runValidators: true }
-    )
-      .select('-__v')
-      .lean();
+      { isActive: newStatus, reason, until },
+      currentUserId
+    )).toObject();
+
+    setAuditContext(res, { before: user, after: updatedUser });
 
     res.status(200).json({
       success: true,
-      message: `User ${newStatus ? 'activated' : 'deactivated'} successfully`,
+      message: `User ${newStatus ? 'activated' : until ? 'suspended' : 'deactivated'} successfully`,
       data: updatedUser
     });
   } catch (error) {
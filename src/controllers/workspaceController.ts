@@ -0,0 +1,517 @@
+// src/controllers/workspaceController.ts
+import { Request, Response, NextFunction } from 'express';
+import Project from '../models/project.model';
+import Party from '../models/party.model';
+import WorkspaceMember from '../models/workspace.member.model';
+import { WorkspaceService } from '../services/workspace.service';
+import { CurrencyService } from '../services/currency.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { setAuditContext } from '../middleware/auditMiddleware';
+
+// List the logged-in user's workspaces; `current` marks the one this session works in
+export const getMyWorkspaces = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user?.id) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const workspaces = await WorkspaceService.listForUser(req.user);
+
+    res.status(200).json({
+      success: true,
+      data: workspaces
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a team workspace; the creator becomes its owner
+export const createWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const workspace = await WorkspaceService.create(userId, req.body.name);
+
+    setAuditContext(res, { resourceId: workspace._id, after: workspace });
+
+    res.status(201).json({
+      success: true,
+      message: 'Workspace created successfully',
+      data: { ...workspace.toObject(), role: 'owner' }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a workspace with the caller's role
+export const getWorkspaceById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace, role } = await WorkspaceService.authorize(req.params.id, req.user, 'read');
+
+    res.status(200).json({
+      success: true,
+      data: { ...workspace.toObject(), role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Rename a workspace
+export const updateWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'manage');
+    const before = workspace.toObject();
+
+    await WorkspaceService.rename(workspace, req.body.name);
+
+    setAuditContext(res, { before, after: workspace });
+
+    res.status(200).json({
+      success: true,
+      message: 'Workspace updated successfully',
+      data: workspace
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete an empty team workspace
+export const deleteWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'own');
+
+    await WorkspaceService.delete(workspace);
+
+    setAuditContext(res, { before: workspace });
+
+    res.status(200).json({
+      success: true,
+      message: 'Workspace deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Make the workspace the current one of this session; project lists, project codes
+// and new projects then refer to it
+export const switchWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace, role } = await WorkspaceService.switchTo(req.params.id, req.user);
+
+    res.status(200).json({
+      success: true,
+      message: `Switched to workspace ${workspace.name}`,
+      data: { ...workspace.toObject(), role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Project, financial and party statistics of all projects in a workspace
+export const getWorkspaceStatistics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'read');
+    const matchStage = { workspace: workspace._id, deletedAt: null };
+
+    const statistics = await Project.aggregate([
+      { $match: matchStage },
+      {
+        $group: {
+          _id: null,
+          totalProjects: { $sum: 1 },
+          activeProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'ACTIVE'] }, 1, 0] }
+          },
+          completedProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'COMPLETED'] }, 1, 0] }
+          },
+          plannedProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'PLANNED'] }, 1, 0] }
+          },
+          onHoldProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'ON_HOLD'] }, 1, 0] }
+          },
+          cancelledProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'CANCELLED'] }, 1, 0] }
+          },
+          archivedProjects: {
+            $sum: { $cond: [{ $eq: ['$status', 'ARCHIVED'] }, 1, 0] }
+          },
+          overdueProjects: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    { $eq: ['$status', 'ACTIVE'] },
+                    { $ne: ['$endDate', null] },
+                    { $lt: ['$endDate', new Date()] }
+                  ]
+                },
+                1,
+                0
+              ]
+            }
+          }
+        }
+      },
+      {
+        $addFields: {
+          successRate: {
+            $cond: [
+              { $eq: ['$totalProjects', 0] },
+              0,
+              { $divide: ['$completedProjects', '$totalProjects'] }
+            ]
+          }
+        }
+      },
+      { $project: { _id: 0 } }
+    ]);
+
+    const stats = statistics[0] || {
+      totalProjects: 0,
+      activeProjects: 0,
+      completedProjects: 0,
+      plannedProjects: 0,
+      onHoldProjects: 0,
+      cancelledProjects: 0,
+      archivedProjects: 0,
+      overdueProjects: 0,
+      successRate: 0
+    };
+
+    // Monetary totals are summed per project currency, then converted
+    const reportingCurrency = await CurrencyService.getReportingCurrency(req.user?.id, req.query.currency as string | undefined);
+    const financialsByCurrency = await Project.aggregate([
+      { $match: matchStage },
+      {
+        $group: {
+          _id: '$currency',
+          totalBudget: { $sum: '$initialBudget' },
+          totalIncome: { $sum: '$totalIncome' },
+          totalExpense: { $sum: '$totalExpense' },
+          totalNetProfit: { $sum: '$balance' }
+        }
+      }
+    ]);
+    const { totals: financials, unconverted } = await CurrencyService.convertGroupedTotals(
+      financialsByCurrency,
+      ['totalBudget', 'totalIncome', 'totalExpense', 'totalNetProfit'],
+      reportingCurrency
+    );
+
+    Object.assign(stats, financials, {
+      currency: reportingCurrency,
+      unconverted,
+      budgetUtilization: financials.totalBudget === 0 ? 0 : financials.totalExpense / financials.totalBudget,
+      averageBudget: stats.totalProjects === 0 ? 0 : financials.totalBudget / stats.totalProjects
+    });
+
+    // Get parties statistics
+    const projectIds = await Project.find(matchStage).distinct('_id');
+    const partiesStats = await Party.aggregate([
+      { $match: { project: { $in: projectIds } } },
+      {
+        $group: {
+          _id: null,
+          totalParties: { $sum: 1 },
+          totalClients: {
+            $sum: { $cond: [{ $eq: ['$partyType', 'CLIENT'] }, 1, 0] }
+          },
+          totalVendors: {
+            $sum: { $cond: [{ $eq: ['$partyType', 'VENDOR'] }, 1, 0] }
+          },
+          activeParties: {
+            $sum: { $cond: [{ $eq: ['$status', 'ACTIVE'] }, 1, 0] }
+          }
+        }
+      },
+      { $project: { _id: 0 } }
+    ]);
+
+    const partiesData = partiesStats[0] || {
+      totalParties: 0,
+      totalClients: 0,
+      totalVendors: 0,
+      activeParties: 0
+    };
+
+    // Members by workspace role
+    const membersByRole = await WorkspaceMember.aggregate([
+      { $match: { workspace: workspace._id } },
+      { $group: { _id: '$role', count: { $sum: 1 } } }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        workspace: {
+          id: workspace._id,
+          name: workspace.name,
+          isPersonal: workspace.isPersonal
+        },
+        projects: stats,
+        parties: partiesData,
+        members: {
+          total: membersByRole.reduce((sum, curr) => sum + curr.count, 0),
+          byRole: membersByRole.reduce((acc, curr) => {
+            acc[curr._id] = curr.count;
+            return acc;
+          }, {} as Record<string, number>)
+        },
+        combined: {
+          totalEntities: stats.totalProjects + partiesData.totalParties,
+          activeEntities: stats.activeProjects + partiesData.activeParties
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the members of a workspace
+export const getWorkspaceMembers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'read');
+    const members = await WorkspaceService.listMembers(workspace._id);
+
+    res.status(200).json({
+      success: true,
+      data: members
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Invite someone by email as admin or member; they join once they accept
+export const inviteWorkspaceMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'manage');
+    const { email, role } = req.body;
+
+    const invitation = await WorkspaceService.invite(workspace, email, role, req.user!.id);
+
+    setAuditContext(res, { resourceId: workspace._id, after: invitation });
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invitation.email}`,
+      data: invitation
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the open invitations of a workspace
+export const getWorkspaceInvitations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'manage');
+    const invitations = await WorkspaceService.listInvitations(workspace._id);
+
+    res.status(200).json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Withdraw an open invitation
+export const revokeWorkspaceInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, 'manage');
+    const invitation = await WorkspaceService.revokeInvitation(workspace._id, req.params.invitationId);
+
+    setAuditContext(res, { resourceId: workspace._id, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a member's role; the owner transfers the workspace by granting `owner`
+export const updateWorkspaceMemberRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const access = await WorkspaceService.authorize(req.params.id, req.user, 'manage');
+    const { userId } = req.params;
+
+    await WorkspaceService.updateMemberRole(access, userId, req.body.role, req.user!.id);
+
+    setAuditContext(res, { resourceId: access.workspace._id, after: { user: userId, role: req.body.role } });
+
+    res.status(200).json({
+      success: true,
+      message: 'Member role updated',
+      data: { user: userId, role: req.body.role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Remove a member; members may also remove themselves to leave the workspace
+export const removeWorkspaceMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const leaving = req.user?.id.toString() === userId;
+    const { workspace } = await WorkspaceService.authorize(req.params.id, req.user, leaving ? 'read' : 'manage');
+
+    await WorkspaceService.removeMember(workspace, userId, req.user!.id);
+
+    setAuditContext(res, { resourceId: workspace._id, before: { user: userId } });
+
+    res.status(200).json({
+      success: true,
+      message: leaving ? 'You left the workspace' : 'Member removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Open workspace invitations sent to the logged-in user's email
+export const getMyWorkspaceInvitations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitations = await WorkspaceService.getInvitationsForUser(userId);
+
+    res.status(200).json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Accept an invitation: the workspace then shows up in the user's workspaces
+export const acceptWorkspaceInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitation = await WorkspaceService.respond(req.params.invitationId, userId, true);
+
+    setAuditContext(res, { resourceId: invitation.workspace, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation accepted',
+      data: { workspace: invitation.workspace, role: invitation.role }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Decline an invitation
+export const declineWorkspaceInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new ErrorResponse('User not authenticated', 401));
+    }
+
+    const invitation = await WorkspaceService.respond(req.params.invitationId, userId, false);
+
+    setAuditContext(res, { resourceId: invitation.workspace, after: invitation });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
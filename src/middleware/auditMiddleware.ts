@@ -0,0 +1,47 @@
+// middleware/auditMiddleware.ts
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { ActivityLogService } from '../services/activityLog.service';
+
+export interface AuditContext {
+  userId?: Types.ObjectId | string; // Actor when req.user is not set (auth routes)
+  resourceId?: Types.ObjectId | string;
+  before?: any;
+  after?: any;
+  description?: string;
+}
+
+// Attach audit details to the current response; read by auditTrail once the response finishes
+export const setAuditContext = (res: Response, context: AuditContext): void => {
+  res.locals.audit = { ...(res.locals.audit || {}), ...context };
+};
+
+// Record an activity log entry for the route after the response is sent
+export const auditTrail = (resource: string, action: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.on('finish', () => {
+      const audit: AuditContext = res.locals.audit || {};
+      const status = res.statusCode < 400 ? 'success' : 'failure';
+      const paramId = req.params.partyId || req.params.id;
+
+      ActivityLogService.logActivity({
+        userId: audit.userId || req.user?.id,
+        action,
+        resource,
+        resourceId: audit.resourceId || (paramId && Types.ObjectId.isValid(paramId) ? paramId : undefined),
+        description: audit.description || `${resource} ${action}${status === 'failure' ? ' failed' : ''}`,
+        status,
+        statusCode: res.statusCode,
+        changes: status === 'success' ? ActivityLogService.diff(audit.before, audit.after) : undefined,
+        method: req.method,
+        path: req.originalUrl,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      }).catch(() => {
+        // logActivity already reports the failure; auditing must never break a request
+      });
+    });
+
+    next();
+  };
+};
@@ -4,6 +4,8 @@ import { verifyToken } from '../utils/authToken';
 import User from '../models/user.model';
 import { Types } from 'mongoose';
 import { ErrorResponse } from '../utils/errorResponse';
+import { SessionService } from '../services/session.service';
+import { UserStatusService } from '../services/userStatus.service';
 
 // Extend the Request interface to include user property
 declare global {
@@ -12,6 +14,8 @@ declare global {
       user: {
         id: Types.ObjectId | string;
         role: string;
+        sessionId?: string;
+        workspaceId?: Types.ObjectId | null; // current workspace of the session
       };
     }
   }
@@ -34,11 +38,18 @@ export const verifyTokenMiddleware = async (
   try {
     // ✅ Decode token
     const decoded: any = await verifyToken(token);
-    if (!decoded?.id) {
+    if (!decoded?.id || !decoded.sid) {
       res.status(403).json({ message: 'Invalid token payload' });
       return;
     }
 
+    // ✅ Reject access tokens of logged out / revoked sessions
+    const session = await SessionService.validateSession(decoded.id, decoded.sid, req.ip);
+    if (!session) {
+      res.status(401).json({ message: 'Session has been revoked', logout: true });
+      return;
+    }
+
     // ✅ Fetch user from DB
     const user = await User.findById(decoded.id).select('-password');
     if (!user) {
@@ -46,11 +57,19 @@ export const verifyTokenMiddleware = async (
       return;
     }
 
+    // ✅ Deactivated or suspended users are signed out
+    const inactive = await UserStatusService.checkAccess(user);
+    if (inactive) {
+      res.status(inactive.statusCode).json({ message: inactive.message, code: inactive.errorCode, logout: true });
+      return;
+    }
+
     // ✅ Attach user to request
     req.user = {
       id: user._id,
       role: user.role, // assuming role field exists in user model
-
+      sessionId: decoded.sid,
+      workspaceId: session.workspace,
     };
 
     // ✅ Extra: Check if role is admin
@@ -6,6 +6,7 @@ interface CustomError extends Error {
   statusCode?: number;
   status?: number;
   code?: number;
+  errorCode?: string;
   errors?: any;
   value?: string;
   keyValue?: Record<string, any>;
@@ -59,6 +60,7 @@ export const errorHandler = (err: CustomError, req: Request, res: Response, next
   res.status(statusCode).json({
     success: false,
     message,
+    ...(error.errorCode && { code: error.errorCode }),
     ...(process.env.NODE_ENV === 'development' && { 
       stack: err.stack,
       error: err 
@@ -27,3 +27,23 @@ export const uploadSingleImage = multer({
 }); // "image" is the field name
 
 
+
+// Data files (CSV / JSON) for imports, e.g. exchange rates
+const dataFileFilter = (
+  _req: any,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const name = file.originalname.toLowerCase();
+  if (name.endsWith(".csv") || name.endsWith(".json")) {
+    cb(null, true);
+  } else {
+    cb(new Error("Only CSV or JSON files are allowed"));
+  }
+};
+
+export const uploadDataFile = multer({
+  storage,
+  fileFilter: dataFileFilter,
+  limits: { fileSize: 1024 * 1024 }, // 1 MB
+});
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IUserActivityLog extends Document {
+  _id: Types.ObjectId;
+  userId?: Types.ObjectId; // Actor (missing for anonymous attempts, e.g. failed login)
+  action: string; // create | update | delete | login | ...
+  resource: string; // project | party | transaction | user | auth | ...
+  resourceId?: Types.ObjectId;
+  description: string;
+  status: 'success' | 'failure';
+  statusCode?: number;
+  changes?: {
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+  };
+  method?: string;
+  path?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const UserActivityLogSchema: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  },
+  action: { type: String, required: true, trim: true },
+  resource: { type: String, required: true, trim: true, index: true },
+  resourceId: { type: Schema.Types.ObjectId },
+  description: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['success', 'failure'],
+    default: 'success',
+  },
+  statusCode: { type: Number },
+
+  // Only the fields that changed
+  changes: {
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+
+  method: { type: String },
+  path: { type: String },
+  ipAddress: { type: String },
+  userAgent: { type: String },
+
+  createdAt: { type: Date, default: Date.now, index: true },
+}, { timestamps: false });
+
+UserActivityLogSchema.index({ userId: 1, createdAt: -1 });
+UserActivityLogSchema.index({ resource: 1, resourceId: 1, createdAt: -1 });
+
+const UserActivityLog = mongoose.model<IUserActivityLog>('UserActivityLog', UserActivityLogSchema);
+export default UserActivityLog;
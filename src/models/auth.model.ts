@@ -1,16 +1,33 @@
 import mongoose, { Document, Schema, Types } from "mongoose";
 import bcrypt from "bcrypt";
 
+export const AUTH_PROVIDERS = ['email', 'google', 'facebook'] as const;
+export type AuthProvider = typeof AUTH_PROVIDERS[number];
+
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string; // encrypted TOTP secret
+  pendingSecret?: string; // encrypted, awaiting confirmation
+  recoveryCodes: string[]; // sha256 hashes, removed once used
+  lastUsedStep?: number; // last accepted TOTP time step (replay protection)
+  enabledAt?: Date;
+}
+
+// One login identity (email+password, Google or Facebook account); a user can hold several
 export interface IAuth extends Document {
   user: Types.ObjectId;
-  provider: 'email' | 'google' | 'facebook';
+  provider: AuthProvider;
   providerId?: string; 
   password?: string;
   isVerified: boolean;
   otp?: string;
   otpExpiresAt?: Date;
+  otpAttempts: number; // wrong guesses against the current OTP
+  twoFactor: ITwoFactor;
   comparePassword(candidatePassword: string): Promise<boolean>;
   _confirmPassword?: string; 
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const authSchema = new Schema<IAuth>(
@@ -19,11 +36,10 @@ const authSchema = new Schema<IAuth>(
       type: Schema.Types.ObjectId,
       ref: "User",
       required: true,
-      unique: true,
     },
     provider: {
       type: String,
-      enum: ['email', 'google', 'facebook'],
+      enum: AUTH_PROVIDERS,
       required: true,
       index: true,
     },
@@ -39,6 +55,15 @@ const authSchema = new Schema<IAuth>(
     isVerified: { type: Boolean, default: false },
     otp: { type: String },
     otpExpiresAt: { type: Date },
+    otpAttempts: { type: Number, default: 0 },
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String, select: false },
+      pendingSecret: { type: String, select: false },
+      recoveryCodes: { type: [String], default: [], select: false },
+      lastUsedStep: { type: Number },
+      enabledAt: { type: Date },
+    },
   },
   {
     timestamps: true,
@@ -47,6 +72,13 @@ const authSchema = new Schema<IAuth>(
   }
 );
 
+// At most one identity per provider per user, and a social account belongs to one user
+authSchema.index({ user: 1, provider: 1 }, { unique: true });
+authSchema.index(
+  { provider: 1, providerId: 1 },
+  { unique: true, partialFilterExpression: { providerId: { $type: "string" } } }
+);
+
 authSchema.virtual("confirmPassword").set(function (value: string) {
   (this as any)._confirmPassword = value;
 });
@@ -0,0 +1,59 @@
+// src/models/category.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// A category belongs to a user (project = null) or to one of the user's projects.
+// Categories nest through `parent`; a parent always has the same scope as its children.
+export interface ICategory extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  color?: string;
+  parent?: Types.ObjectId | null;
+  project?: Types.ObjectId | null;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CategorySchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  color: {
+    type: String,
+    trim: true,
+    match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #1e88e5']
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null
+  },
+  project: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Sibling names are unique within a scope
+CategorySchema.index({ createdBy: 1, project: 1, parent: 1, name: 1 }, { unique: true });
+CategorySchema.index({ parent: 1 });
+
+const Category = mongoose.model<ICategory>('Category', CategorySchema);
+export default Category;
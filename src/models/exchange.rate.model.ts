@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// One unit of `base` is worth `rate` units of `quote`, valid from effectiveDate onwards
+export interface IExchangeRate extends Document {
+  _id: Types.ObjectId;
+  base: string; // ISO 4217 code, e.g. USD
+  quote: string; // ISO 4217 code, e.g. EUR
+  rate: number;
+  effectiveDate: Date;
+  source: 'manual' | 'import';
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExchangeRateSchema: Schema = new Schema({
+  base: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+  },
+  quote: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: [0.00000001, 'Rate must be greater than 0'],
+  },
+  effectiveDate: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'import'],
+    default: 'manual',
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, { timestamps: true });
+
+// One rate per pair and day; lookups take the latest rate on or before a date
+ExchangeRateSchema.index({ base: 1, quote: 1, effectiveDate: -1 }, { unique: true });
+
+const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
+export default ExchangeRate;
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Failed attempt counter for one key, e.g. `login:account:jane@example.com`
+// or `otp:ip:203.0.113.7`. Rows disappear once `expiresAt` has passed.
+export interface ILoginAttempt extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LoginAttemptSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lastFailureAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { timestamps: true });
+
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
+export default LoginAttempt;
@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 
+// Categories a user can mute in their notification preferences
+export const NOTIFICATION_CATEGORIES = ['PROJECT', 'PARTY', 'TRANSACTION', 'BUDGET'] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
 export interface INotification extends Document {
   _id: Types.ObjectId;
   recipient: Types.ObjectId; 
@@ -0,0 +1,65 @@
+// src/models/project.invitation.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { PROJECT_MEMBER_ROLES, ProjectMemberRole } from './project.member.model';
+
+export type ProjectInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+// Invitation by email; the invitee accepts or declines it after signing in with that email
+export interface IProjectInvitation extends Document {
+  _id: Types.ObjectId;
+  project: Types.ObjectId;
+  email: string;
+  role: ProjectMemberRole;
+  status: ProjectInvitationStatus;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectInvitationSchema: Schema = new Schema({
+  project: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: PROJECT_MEMBER_ROLES,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'revoked', 'expired'],
+    default: 'pending'
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  respondedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+ProjectInvitationSchema.index({ email: 1, status: 1 });
+// At most one open invitation per project and email
+ProjectInvitationSchema.index(
+  { project: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+const ProjectInvitation = mongoose.model<IProjectInvitation>('ProjectInvitation', ProjectInvitationSchema);
+export default ProjectInvitation;
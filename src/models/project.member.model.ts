@@ -0,0 +1,47 @@
+// src/models/project.member.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Roles a collaborator can be given; the owner is always Project.createdBy
+export const PROJECT_MEMBER_ROLES = ['editor', 'viewer'] as const;
+export type ProjectMemberRole = typeof PROJECT_MEMBER_ROLES[number];
+
+// A user the owner shared the project with
+export interface IProjectMember extends Document {
+  _id: Types.ObjectId;
+  project: Types.ObjectId;
+  user: Types.ObjectId;
+  role: ProjectMemberRole;
+  invitedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectMemberSchema: Schema = new Schema({
+  project: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  role: {
+    type: String,
+    enum: PROJECT_MEMBER_ROLES,
+    required: true
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ProjectMemberSchema.index({ project: 1, user: 1 }, { unique: true });
+
+const ProjectMember = mongoose.model<IProjectMember>('ProjectMember', ProjectMemberSchema);
+export default ProjectMember;
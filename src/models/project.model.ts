@@ -2,6 +2,33 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { ObjectId } from 'mongodb';
 
+export const PROJECT_STATUSES = ['PLANNED', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED', 'ARCHIVED'] as const;
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+// One entry per status change; changedBy is null for automatic transitions
+export interface IStatusChange {
+  from: ProjectStatus | null; // null for the status the project was created with
+  to: ProjectStatus;
+  changedBy: ObjectId | null;
+  changedAt: Date;
+  reason?: string;
+  automatic: boolean;
+}
+
+export interface IBudgetAlert {
+  threshold: number;
+  type: 'WARNING' | 'CRITICAL';
+  utilization: number;
+  totalExpense: number;
+  initialBudget: number;
+  triggeredAt: Date;
+}
+
+export interface ICategoryBudget {
+  category: ObjectId;
+  amount: number; // in project currency
+}
+
 export interface IProject extends Document {
   title: string;
   code: string;
@@ -11,11 +38,19 @@ export interface IProject extends Document {
   totalExpense: number;
   balance: number;
   currency: string;
-  status: 'PLANNED' | 'ACTIVE' | 'COMPLETED' | 'ON_HOLD';
+  status: ProjectStatus;
+  statusHistory: IStatusChange[];
   createdBy: ObjectId; // Changed from optional to required
+  workspace: ObjectId;
   projectImage?: string;
-  startDate?: Date;
+  startDate?: Date | null;
   endDate?: Date;
+  budgetAlertThresholds: number[]; // % of initialBudget
+  crossedThresholds: number[]; // thresholds currently exceeded (re-armed when spending drops)
+  budgetAlerts: IBudgetAlert[];
+  categoryBudgets: ICategoryBudget[];
+  deletedAt?: Date | null; // in the trash since; purged after PROJECT_TRASH_RETENTION_DAYS
+  deletedBy?: ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,17 +68,18 @@ const ProjectSchema: Schema = new Schema({
     required: true, 
     trim: true,
     uppercase: true
-    // REMOVED: unique: true - We'll handle uniqueness with createdBy
+    // REMOVED: unique: true - We'll handle uniqueness per workspace
   }, 
   description: { 
     type: String, 
     trim: true,
     maxlength: 1000
   },
+    // New codes are validated on input; older projects may hold free-form values
     currency: { 
     type: String, 
     default: 'USD',
-    trim: true 
+    trim: true
   },
   initialBudget: { 
     type: Number, 
@@ -68,14 +104,28 @@ const ProjectSchema: Schema = new Schema({
 
   status: { 
     type: String, 
-    enum: ['PLANNED', 'ACTIVE', 'COMPLETED', 'ON_HOLD'], 
+    enum: PROJECT_STATUSES, 
     default: 'ACTIVE',
   },
+  statusHistory: [{
+    _id: false,
+    from: { type: String, enum: [...PROJECT_STATUSES, null], default: null },
+    to: { type: String, enum: PROJECT_STATUSES, required: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    changedAt: { type: Date, default: Date.now },
+    reason: { type: String, trim: true, maxlength: 500 },
+    automatic: { type: Boolean, default: false }
+  }],
   createdBy: { 
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true // Made required
   },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true
+  },
   projectImage: { 
     type: String, 
     trim: true 
@@ -86,18 +136,50 @@ const ProjectSchema: Schema = new Schema({
   },
   endDate: { 
     type: Date 
+  },
+  budgetAlertThresholds: {
+    type: [{ type: Number, min: 1, max: 1000 }],
+    default: [50, 80, 100]
+  },
+  crossedThresholds: {
+    type: [Number],
+    default: []
+  },
+  budgetAlerts: [{
+    _id: false,
+    threshold: { type: Number, required: true },
+    type: { type: String, enum: ['WARNING', 'CRITICAL'], required: true },
+    utilization: { type: Number, required: true },
+    totalExpense: { type: Number, required: true },
+    initialBudget: { type: Number, required: true },
+    triggeredAt: { type: Date, default: Date.now }
+  }],
+  categoryBudgets: [{
+    _id: false,
+    category: { type: Schema.Types.ObjectId, ref: 'Category', required: true },
+    amount: { type: Number, required: true, min: 0 }
+  }],
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  deletedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
   }
 }, {
   timestamps: true
 });
 
-// Add compound index for code + createdBy to ensure uniqueness per user
-ProjectSchema.index({ code: 1, createdBy: 1 }, { unique: true });
+// Project codes are unique within a workspace
+ProjectSchema.index({ workspace: 1, code: 1 }, { unique: true });
 
 // Other indexes
-ProjectSchema.index({ status: 1 });
+ProjectSchema.index({ status: 1, startDate: 1 });
 ProjectSchema.index({ createdBy: 1 });
 ProjectSchema.index({ createdAt: -1 });
+ProjectSchema.index({ deletedAt: 1 });
 
 const Project = mongoose.model<IProject>('Project', ProjectSchema);
 export default Project;
\ No newline at end of file
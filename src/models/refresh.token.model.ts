@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { SessionRevokeReason } from './session.model';
+
+// One row per issued refresh token. All tokens rotated from the same login share a
+// `family`; the family id is also the session id carried by access tokens.
+export interface IRefreshToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  tokenHash: string; // sha256 of the token, the token itself is never stored
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: 'rotated' | SessionRevokeReason;
+  replacedByHash?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  family: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['rotated', 'logout', 'logout_all', 'revoked', 'revoked_others', 'reuse_detected', 'password_reset', 'password_changed', 'email_changed', 'account_disabled']
+  },
+  replacedByHash: {
+    type: String
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String
+  }
+}, { timestamps: true });
+
+// Expired tokens are removed by MongoDB
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+export default RefreshToken;
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type SessionRevokeReason =
+  'logout' | 'logout_all' | 'revoked' | 'revoked_others' | 'reuse_detected' | 'password_reset'
+  | 'password_changed' | 'email_changed' | 'account_disabled';
+
+// One session per login. `sessionId` is the refresh token family and is carried
+// by access tokens as `sid`, so revoking the session invalidates both.
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  sessionId: string;
+  deviceName?: string;
+  platform: 'ios' | 'android' | 'web' | 'unknown';
+  ipAddress?: string;
+  userAgent?: string;
+  deviceToken?: Types.ObjectId | null; // push token registered from this session
+  workspace?: Types.ObjectId | null; // workspace picked with the switcher; null means the personal one
+  lastSeenAt: Date;
+  expiresAt: Date; // follows the latest refresh token
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  deviceName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  platform: {
+    type: String,
+    enum: ['ios', 'android', 'web', 'unknown'],
+    default: 'unknown'
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String
+  },
+  deviceToken: {
+    type: Schema.Types.ObjectId,
+    ref: 'DeviceToken',
+    default: null
+  },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'revoked', 'revoked_others', 'reuse_detected', 'password_reset', 'password_changed', 'email_changed', 'account_disabled']
+  }
+}, { timestamps: true });
+
+SessionSchema.index({ user: 1, revokedAt: 1, expiresAt: -1 });
+// Keep ended sessions for 30 days after expiry, then let MongoDB remove them
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const Session = mongoose.model<ISession>('Session', SessionSchema);
+export default Session;
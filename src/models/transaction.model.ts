@@ -5,8 +5,13 @@ export interface ITransaction extends Document {
   project: ObjectId;
   party: ObjectId;
   type: 'income' | 'expense'; 
-  amount: number;
+  amount: number; // in the transaction currency
+  currency: string; // ISO 4217 code, defaults to the project currency
+  exchangeRate: number; // transaction currency -> project currency at `date`
+  convertedAmount: number; // amount in project currency, used for project totals
   date: Date;
+  category?: ObjectId | null;
+  tags: string[]; // lowercase, de-duplicated
   note?: string; // Frontend ke 'note' field se match karne ke liye
   fileUrl?: string; // Image/Receipt ka public URL
   fileName?: string; // File ka naam (e.g., receipt_123.jpg)
@@ -39,12 +44,38 @@ const TransactionSchema: Schema = new Schema({
     required: true, 
     min: 0 
   },
+  currency: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code']
+  },
+  exchangeRate: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  convertedAmount: {
+    type: Number,
+    min: 0
+  },
 
   date: { 
     type: Date, 
     default: Date.now, 
     index: true 
   },
+  category: {
+    type: Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null,
+    index: true
+  },
+  tags: {
+    type: [{ type: String, trim: true, lowercase: true, maxlength: 50 }],
+    default: [],
+    index: true
+  },
   note: {
     type: String, 
     trim: true 
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Types } from "mongoose";
+import { NOTIFICATION_CATEGORIES, NotificationCategory } from "./notification.model";
 
 export interface IUser {
   _id?: Types.ObjectId; 
@@ -13,6 +14,25 @@ export interface IUser {
   gender?: "male" | "female" | "other";
   bio?: string;
   languages?: string[];
+  reportingCurrency: string;
+  notificationPreferences?: {
+    mutedCategories: NotificationCategory[];
+  };
+  // Requested email change, applied once the code sent to the new address is confirmed
+  pendingEmail?: {
+    email: string;
+    otp?: string; // sha256 of the code
+    expiresAt: Date;
+    attempts: number;
+  };
+  deletionScheduledAt?: Date | null; // self-service deletion, purged after this date
+  // Why an admin deactivated the account; with `until` it is a suspension that ends by itself
+  suspension?: {
+    reason?: string;
+    until?: Date | null;
+    suspendedAt: Date;
+    suspendedBy?: Types.ObjectId;
+  } | null;
 }
 
 export type IUserDocument = IUser & Document<Types.ObjectId, any, IUser>;
@@ -59,6 +79,38 @@ const userSchema = new Schema<IUser, mongoose.Model<IUserDocument>>(
     dateOfBirth: { type: Date },
     gender: { type: String, enum: ["male", "female", "other"] },
     bio: { type: String, trim: true },
+    reportingCurrency: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      default: "USD",
+      match: [/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code"],
+    },
+    notificationPreferences: {
+      mutedCategories: {
+        type: [{ type: String, enum: NOTIFICATION_CATEGORIES }],
+        default: [],
+      },
+    },
+    pendingEmail: {
+      email: { type: String, lowercase: true, trim: true },
+      otp: { type: String, select: false },
+      expiresAt: { type: Date },
+      attempts: { type: Number },
+    },
+    deletionScheduledAt: { type: Date, default: null, index: true },
+    suspension: {
+      type: new Schema(
+        {
+          reason: { type: String, trim: true, maxlength: [500, "Reason cannot exceed 500 characters"] },
+          until: { type: Date, default: null },
+          suspendedAt: { type: Date, required: true },
+          suspendedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,68 @@
+// src/models/workspace.invitation.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { WorkspaceRole } from './workspace.member.model';
+
+export type WorkspaceInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+// Ownership is transferred between members, so invitations grant admin or member
+export const WORKSPACE_INVITATION_ROLES: Exclude<WorkspaceRole, 'owner'>[] = ['admin', 'member'];
+
+// Invitation by email; the invitee accepts or declines it after signing in with that email
+export interface IWorkspaceInvitation extends Document {
+  _id: Types.ObjectId;
+  workspace: Types.ObjectId;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  status: WorkspaceInvitationStatus;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceInvitationSchema: Schema = new Schema({
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: WORKSPACE_INVITATION_ROLES,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'revoked', 'expired'],
+    default: 'pending'
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  respondedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+WorkspaceInvitationSchema.index({ email: 1, status: 1 });
+// At most one open invitation per workspace and email
+WorkspaceInvitationSchema.index(
+  { workspace: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+const WorkspaceInvitation = mongoose.model<IWorkspaceInvitation>('WorkspaceInvitation', WorkspaceInvitationSchema);
+export default WorkspaceInvitation;
@@ -0,0 +1,47 @@
+// src/models/workspace.member.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Every workspace has exactly one owner; admins manage members and all projects of
+// the workspace, members create projects and can view the others
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export interface IWorkspaceMember extends Document {
+  _id: Types.ObjectId;
+  workspace: Types.ObjectId;
+  user: Types.ObjectId;
+  role: WorkspaceRole;
+  addedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema: Schema = new Schema({
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  role: {
+    type: String,
+    enum: WORKSPACE_ROLES,
+    required: true
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+WorkspaceMemberSchema.index({ workspace: 1, user: 1 }, { unique: true });
+
+const WorkspaceMember = mongoose.model<IWorkspaceMember>('WorkspaceMember', WorkspaceMemberSchema);
+export default WorkspaceMember;
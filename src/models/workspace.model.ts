@@ -0,0 +1,40 @@
+// src/models/workspace.model.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Groups users and projects. Every user has one personal workspace that cannot be
+// shared; team workspaces are created explicitly and have members.
+export interface IWorkspace extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  isPersonal: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    minlength: 2,
+    maxlength: 100
+  },
+  isPersonal: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One personal workspace per user
+WorkspaceSchema.index({ createdBy: 1 }, { unique: true, partialFilterExpression: { isPersonal: true } });
+
+const Workspace = mongoose.model<IWorkspace>('Workspace', WorkspaceSchema);
+export default Workspace;
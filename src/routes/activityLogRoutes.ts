@@ -0,0 +1,12 @@
+// src/routes/activityLogRoutes.ts
+import express from 'express';
+import { getAllActivityLogs } from '../controllers/activityLogController';
+import { verifyTokenMiddleware, authorize } from '../middleware/authMiddleware';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+// Admin routes
+router.get('/', authorize(['admin']), getAllActivityLogs);
+
+export default router;
@@ -5,21 +5,48 @@ import {
     forgotPassword, 
     resetPassword,  
     googleAuthCallback,
-    verifyUserOTP
+    facebookAuthCallback,
+    verifyUserOTP,
+    refreshAccessToken,
+    logoutUser,
+    logoutAllSessions,
+    verifyTwoFactorLogin
 } from '../controllers/authController'; 
+import {
+    getTwoFactorStatus,
+    setupTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes
+} from '../controllers/twoFactorController';
+import { auditTrail } from '../middleware/auditMiddleware';
+import { verifyTokenMiddleware } from '../middleware/authMiddleware';
 
 const router = Router();
 
 
-router.post('/register', registerUser);
-router.post('/login', loginUser);
-router.post('/verify-otp', verifyUserOTP);
+router.post('/register', auditTrail('auth', 'register'), registerUser);
+router.post('/login', auditTrail('auth', 'login'), loginUser);
+router.post('/verify-otp', auditTrail('auth', 'verify_otp'), verifyUserOTP);
 
-router.post('/forgot-password', forgotPassword);
-router.post('/reset-password', resetPassword);  
+router.post('/forgot-password', auditTrail('auth', 'forgot_password'), forgotPassword);
+router.post('/reset-password', auditTrail('auth', 'reset_password'), resetPassword);  
 
 
-router.post('/google-login', googleAuthCallback); 
+router.post('/google-login', auditTrail('auth', 'google_login'), googleAuthCallback); 
+router.post('/facebook-login', auditTrail('auth', 'facebook_login'), facebookAuthCallback);
+
+router.post('/refresh', refreshAccessToken);
+router.post('/logout', auditTrail('auth', 'logout'), logoutUser);
+router.post('/logout-all', verifyTokenMiddleware, auditTrail('auth', 'logout_all'), logoutAllSessions);
+
+// Two-factor authentication
+router.post('/2fa/verify', auditTrail('auth', 'verify_two_factor'), verifyTwoFactorLogin);
+router.get('/2fa', verifyTokenMiddleware, getTwoFactorStatus);
+router.post('/2fa/setup', verifyTokenMiddleware, setupTwoFactor);
+router.post('/2fa/confirm', verifyTokenMiddleware, auditTrail('auth', 'enable_two_factor'), confirmTwoFactor);
+router.post('/2fa/disable', verifyTokenMiddleware, auditTrail('auth', 'disable_two_factor'), disableTwoFactor);
+router.post('/2fa/recovery-codes', verifyTokenMiddleware, auditTrail('auth', 'regenerate_recovery_codes'), regenerateRecoveryCodes);
 
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+// src/routes/categoryRoutes.ts
+import express from 'express';
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../controllers/categoryController';
+import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+router.get('/', getCategories);
+router.post('/', auditTrail('category', 'create'), createCategory);
+router.put('/:id', auditTrail('category', 'update'), updateCategory);
+router.delete('/:id', auditTrail('category', 'delete'), deleteCategory);
+
+export default router;
@@ -0,0 +1,17 @@
+// src/routes/deviceTokenRoutes.ts
+import express from 'express';
+import {
+  registerDeviceToken,
+  refreshDeviceToken,
+  unregisterDeviceToken
+} from '../controllers/deviceTokenController';
+import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+router.post('/', registerDeviceToken);
+router.put('/refresh', refreshDeviceToken);
+router.delete('/', unregisterDeviceToken);
+
+export default router;
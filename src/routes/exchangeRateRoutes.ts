@@ -0,0 +1,25 @@
+// src/routes/exchangeRateRoutes.ts
+import express from 'express';
+import {
+  getExchangeRates,
+  createExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+  convertCurrency
+} from '../controllers/exchangeRateController';
+import { verifyTokenMiddleware, authorize } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
+import { uploadDataFile } from '../middleware/multer';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+router.get('/', getExchangeRates);
+router.get('/convert', convertCurrency);
+
+// Admin routes
+router.post('/', authorize(['admin']), auditTrail('exchange_rate', 'create'), createExchangeRate);
+router.post('/import', authorize(['admin']), uploadDataFile.single('file'), auditTrail('exchange_rate', 'import'), importExchangeRates);
+router.delete('/:id', authorize(['admin']), auditTrail('exchange_rate', 'delete'), deleteExchangeRate);
+
+export default router;
@@ -5,6 +5,12 @@ import assetRoutes from "./assetRoutes";
 import partyRoutes from "./partyRoutes";
 import userRoutes from "./userRoutes";
 import transactionRoutes from "./transactionRoutes";
+import notificationRoutes from "./notificationRoutes";
+import deviceTokenRoutes from "./deviceTokenRoutes";
+import activityLogRoutes from "./activityLogRoutes";
+import exchangeRateRoutes from "./exchangeRateRoutes";
+import categoryRoutes from "./categoryRoutes";
+import workspaceRoutes from "./workspaceRoutes";
 
 
 const router = express.Router();
@@ -15,5 +21,11 @@ router.use("/assets", assetRoutes);
 router.use("/projects", partyRoutes);
 router.use('/users', userRoutes);
 router.use('/transactions', transactionRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/device-tokens', deviceTokenRoutes);
+router.use('/activity-logs', activityLogRoutes);
+router.use('/exchange-rates', exchangeRateRoutes);
+router.use('/categories', categoryRoutes);
+router.use('/workspaces', workspaceRoutes);
 
 export default router;
\ No newline at end of file
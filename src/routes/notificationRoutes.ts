@@ -0,0 +1,25 @@
+// src/routes/notificationRoutes.ts
+import express from 'express';
+import {
+  getMyNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../controllers/notificationController';
+import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+router.get('/', getMyNotifications);
+router.get('/unread-count', getUnreadCount);
+router.get('/preferences', getNotificationPreferences);
+router.put('/preferences', updateNotificationPreferences);
+router.patch('/read-all', markAllNotificationsRead);
+router.patch('/:id/read', markNotificationRead);
+router.delete('/:id', deleteNotification);
+
+export default router;
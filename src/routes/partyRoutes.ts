@@ -9,14 +9,15 @@ import {
   getPartyStatistics
 } from '../controllers/partyController';
 import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
 const router = express.Router();
 router.use(verifyTokenMiddleware);
 // All routes are nested under /projects/:projectId/parties
-router.post('/:projectId/parties', createParty);
+router.post('/:projectId/parties', auditTrail('party', 'create'), createParty);
 router.get('/:projectId/parties', getProjectParties);
 router.get('/:projectId/parties/:partyId', getPartyById);
-router.put('/:projectId/parties/:partyId', updateParty);
-router.delete('/:projectId/parties/:partyId', deleteParty);
+router.put('/:projectId/parties/:partyId', auditTrail('party', 'update'), updateParty);
+router.delete('/:projectId/parties/:partyId', auditTrail('party', 'delete'), deleteParty);
 router.get('/:projectId/parties-stats', getPartyStatistics);
 
 export default router;
\ No newline at end of file
@@ -7,42 +7,77 @@ import {
   createProject,
   updateProject,
   deleteProject,
+  restoreProject,
+  getTrashedProjects,
   forceDeleteProject,
   updateProjectStatus,
+  getProjectStatusHistory,
   updateProjectFinancials,
-  getProjectStatistics,
   getMyProjects,
   getMyProjectStatistics,
    checkMyProjectCodeExists,
-  checkGlobalProjectCodeExists
+  checkGlobalProjectCodeExists,
+  getProjectBudgetAlerts,
+  updateBudgetThresholds,
+  reconcileProjectTotals,
+  getCategoryBudgets,
+  updateCategoryBudgets
 } from '../controllers/projectController';
-import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+import {
+  getProjectMembers,
+  updateProjectMemberRole,
+  removeProjectMember,
+  getProjectInvitations,
+  inviteProjectMember,
+  revokeProjectInvitation
+} from '../controllers/projectMemberController';
+import { verifyTokenMiddleware, authorize } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
 
 const router = express.Router();
 router.use(verifyTokenMiddleware);
 
 // Admin routes (for all projects)
-router.get('/all', getAllProjects); 
-router.get('/stats', getProjectStatistics);
+router.get('/all', authorize(['admin']), getAllProjects);
+router.post('/reconcile', authorize(['admin']), auditTrail('project', 'reconcile'), reconcileProjectTotals);
 
 // User-specific routes
 router.get('/', getMyProjects);
 router.get('/my-stats', getMyProjectStatistics); 
+router.get('/trash', getTrashedProjects);
 
 // Common routes
 router.get('/:id', getProjectById);
 router.get('/code/:code', getProjectByCode);
-router.post('/', createProject);
-router.put('/:id', updateProject);
-router.delete('/:id', deleteProject);
-router.delete('/:id/force', forceDeleteProject);
+router.post('/', auditTrail('project', 'create'), createProject);
+router.put('/:id', auditTrail('project', 'update'), updateProject);
+router.delete('/:id', auditTrail('project', 'delete'), deleteProject);
+router.delete('/:id/force', auditTrail('project', 'force_delete'), forceDeleteProject);
+router.post('/:id/restore', auditTrail('project', 'restore'), restoreProject);
 
 // Special operations
-router.patch('/:id/status', updateProjectStatus);
-router.patch('/:id/financials', updateProjectFinancials);
+router.patch('/:id/status', auditTrail('project', 'update_status'), updateProjectStatus);
+router.get('/:id/status-history', getProjectStatusHistory);
+router.patch('/:id/financials', authorize(['admin']), auditTrail('project', 'update_financials'), updateProjectFinancials);
+
+// Budget alerts
+router.get('/:id/budget-alerts', getProjectBudgetAlerts);
+router.put('/:id/budget-alerts/thresholds', auditTrail('project', 'update_budget_thresholds'), updateBudgetThresholds);
+
+// Category budgets
+router.get('/:id/category-budgets', getCategoryBudgets);
+router.put('/:id/category-budgets', auditTrail('project', 'update_category_budgets'), updateCategoryBudgets);
+
+// Members and invitations
+router.get('/:id/members', getProjectMembers);
+router.patch('/:id/members/:userId', auditTrail('project', 'update_member_role'), updateProjectMemberRole);
+router.delete('/:id/members/:userId', auditTrail('project', 'remove_member'), removeProjectMember);
+router.get('/:id/invitations', getProjectInvitations);
+router.post('/:id/invitations', auditTrail('project', 'invite_member'), inviteProjectMember);
+router.delete('/:id/invitations/:invitationId', auditTrail('project', 'revoke_invitation'), revokeProjectInvitation);
 
 // Check project code routes
-router.get('/check-code/:code', checkMyProjectCodeExists); // User-specific check
+router.get('/check-code/:code', checkMyProjectCodeExists); // Current workspace check
 router.get('/check-code/global/:code', checkGlobalProjectCodeExists); // Global check
 
 export default router;
\ No newline at end of file
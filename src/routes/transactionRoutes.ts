@@ -7,18 +7,20 @@ import {
   getTransactionsByProject,
   updateTransaction,
   deleteTransaction,
+  getTransactionStats,
 } from "../controllers/transactionController";
 import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
 
 const router = express.Router();
 router.use(verifyTokenMiddleware);
 
-router.post("/", createTransaction);
+router.post("/", auditTrail("transaction", "create"), createTransaction);
 router.get("/", getAllTransactions);
-// router.get("/stats", getTransactionStats);
+router.get("/stats", getTransactionStats);
 router.get("/project/:projectId", getTransactionsByProject);
 router.get("/:id", getTransactionById);
-router.put("/:id", updateTransaction);
-router.delete("/:id", deleteTransaction);
+router.put("/:id", auditTrail("transaction", "update"), updateTransaction);
+router.delete("/:id", auditTrail("transaction", "delete"), deleteTransaction);
 
 export default router;
\ No newline at end of file
@@ -9,9 +9,22 @@ import {
   updateCurrentUser,
   deleteUser,
   toggleUserStatus,
-  getUserStatistics
+  getUserStatistics,
+  changeMyPassword,
+  requestEmailChange,
+  confirmEmailChange,
+  exportMyData,
+  deleteMyAccount,
+  cancelMyAccountDeletion
 } from '../controllers/userController';
+import { getMyActivityLogs } from '../controllers/activityLogController';
+import { getMySessions, revokeMySession, revokeOtherSessions } from '../controllers/sessionController';
+import { resetUserTwoFactor } from '../controllers/twoFactorController';
+import { getMyIdentities, linkIdentity, unlinkIdentity } from '../controllers/identityController';
+import { getMyInvitations, acceptInvitation, declineInvitation } from '../controllers/projectMemberController';
+import { getMyWorkspaceInvitations, acceptWorkspaceInvitation, declineWorkspaceInvitation } from '../controllers/workspaceController';
 import { verifyTokenMiddleware, authorize } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
 
 const router = express.Router();
 
@@ -19,14 +32,34 @@ const router = express.Router();
 router.use(verifyTokenMiddleware);
 
 router.get('/me', getCurrentUser);
-router.put('/me', updateCurrentUser);
+router.put('/me', auditTrail('user', 'update_profile'), updateCurrentUser);
+router.delete('/me', auditTrail('user', 'schedule_deletion'), deleteMyAccount);
+router.post('/me/deletion/cancel', auditTrail('user', 'cancel_deletion'), cancelMyAccountDeletion);
+router.get('/me/export', auditTrail('user', 'export_data'), exportMyData);
+router.post('/me/password', auditTrail('user', 'change_password'), changeMyPassword);
+router.post('/me/email', auditTrail('user', 'request_email_change'), requestEmailChange);
+router.post('/me/email/confirm', auditTrail('user', 'change_email'), confirmEmailChange);
+router.get('/me/activity-logs', getMyActivityLogs);
+router.get('/me/sessions', getMySessions);
+router.post('/me/sessions/revoke-others', auditTrail('session', 'revoke_others'), revokeOtherSessions);
+router.delete('/me/sessions/:sessionId', auditTrail('session', 'revoke'), revokeMySession);
+router.get('/me/identities', getMyIdentities);
+router.post('/me/identities/:provider', auditTrail('user', 'link_identity'), linkIdentity);
+router.delete('/me/identities/:provider', auditTrail('user', 'unlink_identity'), unlinkIdentity);
+router.get('/me/invitations', getMyInvitations);
+router.post('/me/invitations/:invitationId/accept', auditTrail('project', 'accept_invitation'), acceptInvitation);
+router.post('/me/invitations/:invitationId/decline', auditTrail('project', 'decline_invitation'), declineInvitation);
+router.get('/me/workspace-invitations', getMyWorkspaceInvitations);
+router.post('/me/workspace-invitations/:invitationId/accept', auditTrail('workspace', 'accept_invitation'), acceptWorkspaceInvitation);
+router.post('/me/workspace-invitations/:invitationId/decline', auditTrail('workspace', 'decline_invitation'), declineWorkspaceInvitation);
 
 router.get('/', authorize(['admin']), getAllUsers);
 router.get('/stats', authorize(['admin']), getUserStatistics);
-router.post('/', authorize(['admin']), createUser);
+router.post('/', authorize(['admin']), auditTrail('user', 'create'), createUser);
 router.get('/:id', authorize(['admin']), getUserById);
-router.put('/:id', authorize(['admin']), updateUser);
-router.delete('/:id', authorize(['admin']), deleteUser);
-router.patch('/:id/toggle-status', authorize(['admin']), toggleUserStatus);
+router.put('/:id', authorize(['admin']), auditTrail('user', 'update'), updateUser);
+router.delete('/:id', authorize(['admin']), auditTrail('user', 'delete'), deleteUser);
+router.patch('/:id/toggle-status', authorize(['admin']), auditTrail('user', 'toggle_status'), toggleUserStatus);
+router.delete('/:id/two-factor', authorize(['admin']), auditTrail('user', 'reset_two_factor'), resetUserTwoFactor);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,46 @@
+// src/routes/workspaceRoutes.ts
+import express from 'express';
+import {
+  getMyWorkspaces,
+  createWorkspace,
+  getWorkspaceById,
+  updateWorkspace,
+  deleteWorkspace,
+  switchWorkspace,
+  getWorkspaceStatistics,
+  getWorkspaceMembers,
+  updateWorkspaceMemberRole,
+  removeWorkspaceMember,
+  inviteWorkspaceMember,
+  getWorkspaceInvitations,
+  revokeWorkspaceInvitation
+} from '../controllers/workspaceController';
+import { verifyTokenMiddleware } from '../middleware/authMiddleware';
+import { auditTrail } from '../middleware/auditMiddleware';
+
+const router = express.Router();
+router.use(verifyTokenMiddleware);
+
+router.get('/', getMyWorkspaces);
+router.post('/', auditTrail('workspace', 'create'), createWorkspace);
+router.get('/:id', getWorkspaceById);
+router.put('/:id', auditTrail('workspace', 'update'), updateWorkspace);
+router.delete('/:id', auditTrail('workspace', 'delete'), deleteWorkspace);
+
+// Workspace switcher (per session)
+router.post('/:id/switch', switchWorkspace);
+
+// Statistics
+router.get('/:id/stats', getWorkspaceStatistics);
+
+// Members
+router.get('/:id/members', getWorkspaceMembers);
+router.patch('/:id/members/:userId', auditTrail('workspace', 'update_member_role'), updateWorkspaceMemberRole);
+router.delete('/:id/members/:userId', auditTrail('workspace', 'remove_member'), removeWorkspaceMember);
+
+// Invitations
+router.get('/:id/invitations', getWorkspaceInvitations);
+router.post('/:id/invitations', auditTrail('workspace', 'invite_member'), inviteWorkspaceMember);
+router.delete('/:id/invitations/:invitationId', auditTrail('workspace', 'revoke_invitation'), revokeWorkspaceInvitation);
+
+export default router;
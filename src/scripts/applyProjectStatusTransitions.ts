@@ -0,0 +1,26 @@
+// scripts/applyProjectStatusTransitions.ts
+//
+// Run the automatic project status transitions that are due: PLANNED projects
+// whose start date has been reached become ACTIVE. Meant to run daily from cron.
+//
+//   npm run project-transitions
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import { ProjectStatusService } from "../services/projectStatus.service";
+
+const run = async (): Promise<void> => {
+  await mongoose.connect(config.MONGO_URI);
+  console.log("✅ MongoDB Connected");
+
+  const activated = await ProjectStatusService.applyScheduledTransitions();
+
+  console.log(`Activated ${activated} planned project(s) whose start date was reached`);
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Project status transitions failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
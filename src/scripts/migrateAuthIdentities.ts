@@ -0,0 +1,34 @@
+// scripts/migrateAuthIdentities.ts
+//
+// One-off migration for databases created before users could link several login
+// methods: drops the old unique index on the user of a login identity, which lets
+// only one identity exist per user, and builds the per-provider indexes. Safe to run again.
+//
+//   npm run migrate-auth-identities
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import Auth from "../models/auth.model";
+
+const LEGACY_USER_INDEX = "user_1";
+
+const run = async (): Promise<void> => {
+  await mongoose.connect(config.MONGO_URI);
+  console.log("✅ MongoDB Connected");
+
+  const indexes = await Auth.collection.indexes();
+  if (indexes.some((index) => index.name === LEGACY_USER_INDEX)) {
+    await Auth.collection.dropIndex(LEGACY_USER_INDEX);
+    console.log(`Dropped index ${LEGACY_USER_INDEX}`);
+  }
+  await Auth.createIndexes();
+
+  console.log("Login identity indexes are up to date");
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Login identity migration failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,53 @@
+// scripts/migrateWorkspaces.ts
+//
+// One-off migration for databases created before workspaces: gives every user their
+// personal workspace, moves the projects they created into it and replaces the old
+// per-user project code index with the per-workspace one. Safe to run again.
+//
+//   npm run migrate-workspaces
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import Project from "../models/project.model";
+import User from "../models/user.model";
+import { WorkspaceService } from "../services/workspace.service";
+
+const LEGACY_CODE_INDEX = "code_1_createdBy_1";
+
+const run = async (): Promise<void> => {
+  await mongoose.connect(config.MONGO_URI);
+  console.log("✅ MongoDB Connected");
+
+  const ownerIds: mongoose.Types.ObjectId[] = await Project.find({ workspace: null }).distinct("createdBy");
+  let movedProjects = 0;
+
+  for (const ownerId of ownerIds) {
+    if (!(await User.exists({ _id: ownerId }))) {
+      console.warn(`Skipping projects of missing user ${ownerId}`);
+      continue;
+    }
+
+    const workspace = await WorkspaceService.getPersonalWorkspace(ownerId);
+    const result = await Project.updateMany(
+      { createdBy: ownerId, workspace: null },
+      { $set: { workspace: workspace._id } }
+    );
+    movedProjects += result.modifiedCount;
+  }
+
+  const indexes = await Project.collection.indexes();
+  if (indexes.some((index) => index.name === LEGACY_CODE_INDEX)) {
+    await Project.collection.dropIndex(LEGACY_CODE_INDEX);
+    console.log(`Dropped index ${LEGACY_CODE_INDEX}`);
+  }
+  await Project.createIndexes();
+
+  console.log(`Moved ${movedProjects} project(s) of ${ownerIds.length} user(s) into personal workspaces`);
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Workspace migration failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
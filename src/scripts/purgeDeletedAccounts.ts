@@ -0,0 +1,26 @@
+// scripts/purgeDeletedAccounts.ts
+//
+// Delete the accounts whose deletion grace period (ACCOUNT_DELETION_GRACE_DAYS) has ended,
+// with all their projects, parties, transactions and other related data.
+//
+//   npm run purge-accounts
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import { AccountService } from "../services/account.service";
+
+const run = async (): Promise<void> => {
+  await mongoose.connect(config.MONGO_URI);
+  console.log("✅ MongoDB Connected");
+
+  const purged = await AccountService.purgeScheduledDeletions();
+
+  console.log(`Purged ${purged} account(s) scheduled for deletion`);
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Account purge failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+// scripts/purgeTrashedProjects.ts
+//
+// Permanently delete the projects that have been in the trash longer than
+// PROJECT_TRASH_RETENTION_DAYS, with their parties, transactions, categories,
+// members, invitations and Cloudinary receipt files.
+//
+//   npm run purge-trash
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import { ProjectTrashService } from "../services/projectTrash.service";
+
+const run = async (): Promise<void> => {
+  await mongoose.connect(config.MONGO_URI);
+  console.log("✅ MongoDB Connected");
+
+  const purged = await ProjectTrashService.purgeExpired();
+
+  console.log(`Purged ${purged} project(s) from the trash`);
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Trash purge failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
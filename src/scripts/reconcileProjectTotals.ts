@@ -0,0 +1,62 @@
+// scripts/reconcileProjectTotals.ts
+//
+// Recompute Project.totalIncome / totalExpense / balance from non-deleted transactions.
+//
+//   npm run reconcile                       # dry run, report only
+//   npm run reconcile -- --fix              # write corrected totals
+//   npm run reconcile -- --project <id>     # limit to one or more projects
+import mongoose from "mongoose";
+import { config } from "../config/config";
+import { ReconciliationService } from "../services/reconciliation.service";
+
+const parseArgs = (argv: string[]): { fix: boolean; projectIds: string[] } => {
+  const projectIds: string[] = [];
+  let fix = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--fix") {
+      fix = true;
+    } else if (argv[i] === "--project" && argv[i + 1]) {
+      projectIds.push(argv[++i]);
+    }
+  }
+
+  return { fix, projectIds };
+};
+
+const run = async (): Promise<void> => {
+  const { fix, projectIds } = parseArgs(process.argv.slice(2));
+
+  const invalidId = projectIds.find((id) => !mongoose.Types.ObjectId.isValid(id));
+  if (invalidId) {
+    throw new Error(`Invalid project ID: ${invalidId}`);
+  }
+
+  await mongoose.connect(config.MONGO_URI);
+  console.log(`✅ MongoDB Connected (${fix ? "fix" : "dry run"})`);
+
+  const report = await ReconciliationService.reconcileProjects({ projectIds, fix });
+
+  report.discrepancies.forEach((item) => {
+    console.log(
+      `${item.code} ${item.title} [${item.projectId}]` +
+        ` income ${item.stored.totalIncome} -> ${item.actual.totalIncome},` +
+        ` expense ${item.stored.totalExpense} -> ${item.actual.totalExpense},` +
+        ` balance ${item.stored.balance} -> ${item.actual.balance}` +
+        (fix ? (item.fixed ? " (fixed)" : " (skipped, changed concurrently)") : "")
+    );
+  });
+
+  console.log(
+    `Checked ${report.checkedProjects} project(s), ${report.discrepancies.length} with drifted totals` +
+      (fix ? `, ${report.fixedProjects} fixed, ${report.skippedProjects} skipped` : "")
+  );
+};
+
+run()
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("❌ Reconciliation failed:", err);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,451 @@
+// services/account.service.ts
+import { Types } from 'mongoose';
+import Auth from '../models/auth.model';
+import User from '../models/user.model';
+import Project, { IProject } from '../models/project.model';
+import Party, { IParty } from '../models/party.model';
+import Transaction, { ITransaction } from '../models/transaction.model';
+import Category, { ICategory } from '../models/category.model';
+import Notification from '../models/notification.model';
+import DeviceToken from '../models/device.token.model';
+import Session from '../models/session.model';
+import RefreshToken from '../models/refresh.token.model';
+import ExchangeRate from '../models/exchange.rate.model';
+import UserActivityLog from '../models/UserActivityLog.model';
+import ProjectMember from '../models/project.member.model';
+import ProjectInvitation from '../models/project.invitation.model';
+import WorkspaceMember from '../models/workspace.member.model';
+import WorkspaceInvitation from '../models/workspace.invitation.model';
+import { IdentityService, ReauthCredentials } from './identity.service';
+import { SessionService } from './session.service';
+import { WorkspaceService } from './workspace.service';
+import { ProjectTrashService, ProjectPurgeSummary } from './projectTrash.service';
+import { config } from '../config/config';
+import { createOTP, hashOTP, verifyOTP } from '../utils/createOTP';
+import { sendEmail } from '../utils/sendEmail';
+import { createZip } from '../utils/zip';
+import { toCsv } from '../utils/csv';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+export interface ChangePasswordData {
+  currentPassword?: string;
+  newPassword?: string;
+  confirmPassword?: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Where the request came from; the current session stays signed in
+export interface AccountRequestContext {
+  sessionId?: string;
+  ipAddress?: string;
+}
+
+// Number of records removed (or anonymized) per collection
+export type AccountDeletionSummary = Record<
+  'projects' | 'parties' | 'transactions' | 'categories' | 'receipts' | 'notifications' | 'deviceTokens'
+  | 'sessions' | 'refreshTokens' | 'identities' | 'memberships' | 'invitations' | 'workspaces'
+  | 'transferredProjects' | 'anonymizedActivityLogs',
+  number
+>;
+
+const EMAIL_CHANGE_EXPIRY_MINUTES = 10;
+const EMAIL_REGEX = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
+
+// Security notices are best effort; a mail outage must not undo the change
+const sendSecurityEmail = async (to: string, subject: string, html: string): Promise<void> => {
+  try {
+    await sendEmail({ to, subject, html });
+  } catch (error) {
+    logger.error(`Failed to send "${subject}" email:`, error);
+  }
+};
+
+export class AccountService {
+  /**
+   * Change the password after checking the current one (and 2FA).
+   * Returns the number of other sessions that were signed out.
+   */
+  static async changePassword(
+    userId: Types.ObjectId | string,
+    data: ChangePasswordData,
+    context: AccountRequestContext = {}
+  ): Promise<number> {
+    const { currentPassword, newPassword, confirmPassword, code, recoveryCode } = data;
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      throw new ErrorResponse('Current password, new password and confirm password are required', 400);
+    }
+    if (newPassword !== confirmPassword) {
+      throw new ErrorResponse('Passwords do not match', 400);
+    }
+    if (newPassword === currentPassword) {
+      throw new ErrorResponse('New password must be different from the current password', 400);
+    }
+
+    const auth = await Auth.findOne({ user: userId, provider: 'email' }).select('+password');
+    if (!auth) {
+      throw new ErrorResponse('Your account has no password yet. Add one under /users/me/identities', 400);
+    }
+
+    await IdentityService.reauthenticate(userId, { password: currentPassword, code, recoveryCode }, context.ipAddress);
+
+    auth.password = newPassword;
+    (auth as any).confirmPassword = confirmPassword;
+    await auth.save();
+
+    const signedOut = await SessionService.revokeAllForUser(userId, 'password_changed', context.sessionId);
+
+    const user = await User.findById(userId).select('email');
+    if (user) {
+      await sendSecurityEmail(
+        user.email,
+        'Your password was changed',
+        '<p>The password of your account was just changed and your other devices were signed out. If this was not you, reset your password now.</p>'
+      );
+    }
+
+    return signedOut;
+  }
+
+  /**
+   * Send a code to the new address; the email only changes once it is confirmed
+   */
+  static async requestEmailChange(
+    userId: Types.ObjectId | string,
+    newEmail: string | undefined,
+    reauth: ReauthCredentials | undefined,
+    context: AccountRequestContext = {}
+  ): Promise<{ email: string; expiresAt: Date }> {
+    const email = (newEmail || '').toLowerCase().trim();
+
+    if (!EMAIL_REGEX.test(email)) {
+      throw new ErrorResponse('Please provide a valid email address', 400);
+    }
+
+    const user = await User.findById(userId).select('email');
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+    if (user.email === email) {
+      throw new ErrorResponse('This is already your email address', 400);
+    }
+    if (await User.exists({ email, _id: { $ne: userId } })) {
+      throw new ErrorResponse('Email already registered', 409);
+    }
+
+    await IdentityService.reauthenticate(userId, reauth, context.ipAddress);
+
+    const otp = createOTP();
+    const expiresAt = new Date(Date.now() + EMAIL_CHANGE_EXPIRY_MINUTES * 60 * 1000);
+    await User.updateOne(
+      { _id: userId },
+      { $set: { pendingEmail: { email, otp: hashOTP(otp), expiresAt, attempts: 0 } } }
+    );
+
+    try {
+      await sendEmail({
+        to: email,
+        subject: 'Confirm your new email address',
+        html: `<h3>Your confirmation code is: <b>${otp}</b>. It expires in ${EMAIL_CHANGE_EXPIRY_MINUTES} minutes.</h3>`
+      });
+    } catch (error) {
+      throw new ErrorResponse('Could not send the confirmation email. Please try again later.', 502);
+    }
+
+    return { email, expiresAt };
+  }
+
+  /**
+   * Switch to the pending email with the code sent to it. The old address is told
+   * about the change and all other sessions are signed out.
+   */
+  static async confirmEmailChange(
+    userId: Types.ObjectId | string,
+    otp: string | undefined,
+    context: AccountRequestContext = {}
+  ): Promise<{ previousEmail: string; email: string; signedOutSessions: number }> {
+    if (!otp) {
+      throw new ErrorResponse('Confirmation code is required', 400);
+    }
+
+    const user = await User.findById(userId).select('+pendingEmail.otp');
+    const pending = user?.pendingEmail;
+
+    if (!user || !pending?.email || !pending.otp || pending.expiresAt.getTime() < Date.now()) {
+      throw new ErrorResponse('No pending email change or the code has expired. Please request a new one.', 400);
+    }
+
+    if (!verifyOTP(String(otp), pending.otp)) {
+      const attempts = (pending.attempts || 0) + 1;
+      if (attempts >= config.OTP_MAX_ATTEMPTS) {
+        await User.updateOne({ _id: userId }, { $unset: { pendingEmail: '' } });
+        throw new ErrorResponse('Too many invalid attempts. Please request a new code.', 400);
+      }
+      await User.updateOne({ _id: userId }, { $set: { 'pendingEmail.attempts': attempts } });
+      throw new ErrorResponse('Invalid confirmation code', 400);
+    }
+
+    if (await User.exists({ email: pending.email, _id: { $ne: userId } })) {
+      await User.updateOne({ _id: userId }, { $unset: { pendingEmail: '' } });
+      throw new ErrorResponse('Email already registered', 409);
+    }
+
+    const previousEmail = user.email;
+    await User.updateOne(
+      { _id: userId },
+      { $set: { email: pending.email }, $unset: { pendingEmail: '' } }
+    );
+
+    const signedOutSessions = await SessionService.revokeAllForUser(userId, 'email_changed', context.sessionId);
+
+    await sendSecurityEmail(
+      previousEmail,
+      'Your email address was changed',
+      `<p>The email address of your account was changed to <b>${pending.email}</b> and your other devices were signed out. If this was not you, contact support immediately.</p>`
+    );
+
+    return { previousEmail, email: pending.email, signedOutSessions };
+  }
+
+  /**
+   * Everything the user owns as a zip archive: data.json with all records and
+   * CSV files for projects, parties, transactions and categories
+   */
+  static async exportData(userId: Types.ObjectId | string): Promise<Buffer> {
+    const user = await User.findById(userId).select('-__v -pendingEmail').lean();
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+
+    const projects = await Project.find({ createdBy: userId }).select('-__v').lean<IProject[]>();
+    const projectIds = projects.map(project => project._id);
+
+    const [parties, transactions, categories, identities, sessions, deviceTokens, notifications, activityLogs, memberships, workspaces] =
+      await Promise.all([
+        Party.find({ project: { $in: projectIds } }).select('-__v').lean<IParty[]>(),
+        Transaction.find({ $or: [{ project: { $in: projectIds } }, { createdBy: userId }] })
+          .select('-__v')
+          .sort({ date: 1 })
+          .lean<ITransaction[]>(),
+        Category.find({ $or: [{ createdBy: userId }, { project: { $in: projectIds } }] })
+          .select('-__v')
+          .lean<ICategory[]>(),
+        Auth.find({ user: userId }).select('provider isVerified twoFactor.enabled createdAt').lean(),
+        Session.find({ user: userId })
+          .select('deviceName platform ipAddress userAgent lastSeenAt createdAt revokedAt')
+          .lean(),
+        DeviceToken.find({ user: userId }).select('platform isActive lastUsed createdAt').lean(),
+        Notification.find({ recipient: userId }).select('-__v').sort({ createdAt: -1 }).lean(),
+        UserActivityLog.find({ userId }).select('-__v').sort({ createdAt: -1 }).lean(),
+        ProjectMember.find({ user: userId }).select('project role createdAt').populate('project', 'title code').lean(),
+        WorkspaceMember.find({ user: userId }).select('workspace role createdAt').populate('workspace', 'name isPersonal').lean()
+      ]);
+
+    const projectCodes = new Map(projects.map(project => [project._id.toString(), project.code]));
+    const partyNames = new Map(parties.map(party => [party._id.toString(), party.name]));
+    const categoryNames = new Map(categories.map(category => [category._id.toString(), category.name]));
+
+    const data = {
+      exportedAt: new Date(),
+      user,
+      identities,
+      sessions,
+      deviceTokens,
+      workspaces,
+      projects,
+      memberships,
+      parties,
+      transactions,
+      categories,
+      notifications,
+      activityLogs
+    };
+
+    return createZip([
+      { name: 'data.json', content: JSON.stringify(data, null, 2) },
+      {
+        name: 'projects.csv',
+        content: toCsv(projects, [
+          { header: 'id', value: project => project._id },
+          { header: 'code', value: project => project.code },
+          { header: 'title', value: project => project.title },
+          { header: 'status', value: project => project.status },
+          { header: 'currency', value: project => project.currency },
+          { header: 'initialBudget', value: project => project.initialBudget },
+          { header: 'totalIncome', value: project => project.totalIncome },
+          { header: 'totalExpense', value: project => project.totalExpense },
+          { header: 'balance', value: project => project.balance },
+          { header: 'startDate', value: project => project.startDate },
+          { header: 'endDate', value: project => project.endDate },
+          { header: 'createdAt', value: project => project.createdAt }
+        ])
+      },
+      {
+        name: 'parties.csv',
+        content: toCsv(parties, [
+          { header: 'id', value: party => party._id },
+          { header: 'project', value: party => projectCodes.get(party.project.toString()) },
+          { header: 'type', value: party => party.partyType },
+          { header: 'name', value: party => party.name },
+          { header: 'email', value: party => party.contact?.email },
+          { header: 'phone', value: party => party.contact?.phone },
+          { header: 'address', value: party => party.contact?.address },
+          { header: 'createdAt', value: party => party.createdAt }
+        ])
+      },
+      {
+        name: 'transactions.csv',
+        content: toCsv(transactions, [
+          { header: 'id', value: transaction => transaction._id },
+          { header: 'date', value: transaction => transaction.date },
+          { header: 'project', value: transaction => projectCodes.get(transaction.project.toString()) },
+          { header: 'party', value: transaction => partyNames.get(transaction.party?.toString()) },
+          { header: 'type', value: transaction => transaction.type },
+          { header: 'amount', value: transaction => transaction.amount },
+          { header: 'currency', value: transaction => transaction.currency },
+          { header: 'convertedAmount', value: transaction => transaction.convertedAmount },
+          { header: 'category', value: transaction => transaction.category ? categoryNames.get(transaction.category.toString()) : '' },
+          { header: 'tags', value: transaction => (transaction.tags || []).join(' ') },
+          { header: 'note', value: transaction => transaction.note },
+          { header: 'deleted', value: transaction => transaction.isDeleted }
+        ])
+      },
+      {
+        name: 'categories.csv',
+        content: toCsv(categories, [
+          { header: 'id', value: category => category._id },
+          { header: 'name', value: category => category.name },
+          { header: 'parent', value: category => category.parent ? categoryNames.get(category.parent.toString()) : '' },
+          { header: 'project', value: category => category.project ? projectCodes.get(category.project.toString()) : '' },
+          { header: 'description', value: category => category.description }
+        ])
+      }
+    ]);
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period; the user can cancel until then
+   */
+  static async scheduleDeletion(
+    userId: Types.ObjectId | string,
+    reauth: ReauthCredentials | undefined,
+    context: AccountRequestContext = {}
+  ): Promise<Date> {
+    const user = await User.findById(userId).select('email deletionScheduledAt');
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+    if (user.deletionScheduledAt) {
+      throw new ErrorResponse('Account deletion is already scheduled', 409);
+    }
+
+    await IdentityService.reauthenticate(userId, reauth, context.ipAddress);
+
+    const deletionScheduledAt = new Date(Date.now() + config.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    await User.updateOne({ _id: userId }, { $set: { deletionScheduledAt } });
+
+    await sendSecurityEmail(
+      user.email,
+      'Your account is scheduled for deletion',
+      `<p>Your account and all its data will be deleted on <b>${deletionScheduledAt.toISOString()}</b>. Log in and cancel the deletion before then to keep it.</p>`
+    );
+
+    return deletionScheduledAt;
+  }
+
+  static async cancelDeletion(userId: Types.ObjectId | string): Promise<void> {
+    const result = await User.updateOne(
+      { _id: userId, deletionScheduledAt: { $ne: null } },
+      { $set: { deletionScheduledAt: null } }
+    );
+    if (result.matchedCount === 0) {
+      throw new ErrorResponse('Account deletion is not scheduled', 400);
+    }
+  }
+
+  /**
+   * Delete a user and everything they own. Their projects are purged like projects
+   * leaving the trash, receipt files included. Team workspaces and the projects in
+   * them pass to the workspace owner (see WorkspaceService.releaseUser). Activity
+   * logs stay for the audit trail but no longer point to the user.
+   */
+  static async deleteAccount(userId: Types.ObjectId | string): Promise<AccountDeletionSummary> {
+    const user = await User.findById(userId).select('email').lean();
+    const released = await WorkspaceService.releaseUser(userId);
+    const projects = await Project.find({ createdBy: userId }).select('_id').lean();
+
+    const purged: ProjectPurgeSummary = { parties: 0, transactions: 0, categories: 0, members: 0, invitations: 0, receipts: 0 };
+    for (const project of projects) {
+      const summary = await ProjectTrashService.purge(project._id as Types.ObjectId);
+      (Object.keys(purged) as (keyof ProjectPurgeSummary)[]).forEach((key) => {
+        purged[key] += summary[key];
+      });
+    }
+
+    const [
+      categories,
+      notifications,
+      deviceTokens,
+      sessions,
+      refreshTokens,
+      identities,
+      memberships,
+      invitations,
+      workspaceInvitations,
+      activityLogs
+    ] = await Promise.all([
+      Category.deleteMany({ createdBy: userId }),
+      Notification.deleteMany({ recipient: userId }),
+      DeviceToken.deleteMany({ user: userId }),
+      Session.deleteMany({ user: userId }),
+      RefreshToken.deleteMany({ user: userId }),
+      Auth.deleteMany({ user: userId }),
+      ProjectMember.deleteMany({ user: userId }),
+      ProjectInvitation.deleteMany({
+        $or: [{ invitedBy: userId }, ...(user ? [{ email: user.email }] : [])]
+      }),
+      WorkspaceInvitation.deleteMany({
+        $or: [{ invitedBy: userId }, ...(user ? [{ email: user.email }] : [])]
+      }),
+      UserActivityLog.updateMany({ userId }, { $unset: { userId: '', ipAddress: '', userAgent: '' } }),
+      ProjectMember.updateMany({ invitedBy: userId }, { $unset: { invitedBy: '' } }),
+      ExchangeRate.updateMany({ createdBy: userId }, { $unset: { createdBy: '' } })
+    ]);
+
+    await User.deleteOne({ _id: userId });
+
+    return {
+      projects: projects.length,
+      parties: purged.parties,
+      transactions: purged.transactions,
+      categories: purged.categories + categories.deletedCount,
+      receipts: purged.receipts,
+      notifications: notifications.deletedCount,
+      deviceTokens: deviceTokens.deletedCount,
+      sessions: sessions.deletedCount,
+      refreshTokens: refreshTokens.deletedCount,
+      identities: identities.deletedCount,
+      memberships: purged.members + memberships.deletedCount,
+      invitations: purged.invitations + invitations.deletedCount + workspaceInvitations.deletedCount,
+      workspaces: released.deletedWorkspaces,
+      transferredProjects: released.transferredProjects,
+      anonymizedActivityLogs: activityLogs.modifiedCount
+    };
+  }
+
+  /**
+   * Delete the accounts whose grace period has ended; returns how many were purged
+   */
+  static async purgeScheduledDeletions(now: Date = new Date()): Promise<number> {
+    const users = await User.find({ deletionScheduledAt: { $ne: null, $lte: now } }).select('_id');
+
+    for (const user of users) {
+      const summary = await this.deleteAccount(user._id);
+      logger.info(`Purged account ${user._id} after its deletion grace period`, summary);
+    }
+
+    return users.length;
+  }
+}
@@ -8,9 +8,54 @@ export interface ActivityLogData {
   resourceId?: any;
   description: string;
   status?: "success" | "failure";
+  statusCode?: number;
+  changes?: {
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+  };
+  method?: string;
+  path?: string;
+  ipAddress?: string;
+  userAgent?: string;
 }
 
+// Never persisted in audit diffs
+const SENSITIVE_FIELDS = ['password', 'otp', 'otpExpiresAt', '__v'];
+
+// Normalize documents (ObjectIds, Dates) into plain JSON values
+const toPlain = (value: any): Record<string, any> => {
+  if (!value) return {};
+  const plain = typeof value.toObject === 'function' ? value.toObject() : value;
+  return JSON.parse(JSON.stringify(plain));
+};
+
 export class ActivityLogService {
+  /**
+   * Reduce before/after snapshots to the fields that actually changed
+   */
+  static diff(
+    before?: any,
+    after?: any
+  ): { before?: Record<string, any>; after?: Record<string, any> } | undefined {
+    if (!before && !after) return undefined;
+
+    const oldValues = toPlain(before);
+    const newValues = toPlain(after);
+    const keys = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+
+    const changes: { before: Record<string, any>; after: Record<string, any> } = { before: {}, after: {} };
+
+    keys.forEach((key) => {
+      if (SENSITIVE_FIELDS.includes(key) || key === 'updatedAt') return;
+      if (JSON.stringify(oldValues[key]) === JSON.stringify(newValues[key])) return;
+
+      if (key in oldValues) changes.before[key] = oldValues[key];
+      if (key in newValues) changes.after[key] = newValues[key];
+    });
+
+    return changes;
+  }
+
   /**
    * Log user activity
    */
@@ -30,17 +75,19 @@ export class ActivityLogService {
   static async getUserActivityLogs(
     userId: string, 
     page: number = 1, 
-    limit: number = 50
+    limit: number = 50,
+    filters: any = {}
   ): Promise<{ logs: IUserActivityLog[], total: number }> {
     try {
       const skip = (page - 1) * limit;
+      const query = { ...filters, userId };
       
       const [logs, total] = await Promise.all([
-        UserActivityLog.find({ userId })
+        UserActivityLog.find(query)
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit),
-        UserActivityLog.countDocuments({ userId })
+        UserActivityLog.countDocuments(query)
       ]);
       
       return { logs, total };
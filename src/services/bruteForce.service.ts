@@ -0,0 +1,240 @@
+// services/bruteForce.service.ts
+import { Types } from 'mongoose';
+import LoginAttempt from '../models/login.attempt.model';
+import { ActivityLogService } from './activityLog.service';
+import { DomainEventService } from './domainEvent.service';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export type AttemptScope = 'login' | 'otp' | 'two_factor' | 'reauth';
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  increment(key: string, expiresAt: Date): Promise<AttemptRecord>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Who is attempting what: `account` is the email as entered (the user id for 2FA and re-authentication),
+// `userId` is only known when the account exists and is used for lockout notices
+export interface AttemptSubject {
+  scope: AttemptScope;
+  account: string;
+  ipAddress?: string;
+  userId?: Types.ObjectId | string;
+}
+
+/**
+ * Keeps counters in MongoDB so every app instance sees the same failures
+ */
+export class MongoAttemptStore implements AttemptStore {
+  async get(key: string): Promise<AttemptRecord | null> {
+    const row = await LoginAttempt.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    if (!row) {
+      return null;
+    }
+    return { failures: row.failures, lastFailureAt: row.lastFailureAt, lockedUntil: row.lockedUntil || null };
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<AttemptRecord> {
+    // The TTL monitor runs about once a minute; drop a stale row so counting starts over
+    await LoginAttempt.deleteOne({ key, expiresAt: { $lte: new Date() } });
+
+    const row = await LoginAttempt.findOneAndUpdate(
+      { key },
+      { $inc: { failures: 1 }, $set: { lastFailureAt: new Date() }, $max: { expiresAt } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).lean();
+
+    return { failures: row!.failures, lastFailureAt: row!.lastFailureAt, lockedUntil: row!.lockedUntil || null };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await LoginAttempt.updateOne({ key }, { $set: { lockedUntil: until }, $max: { expiresAt: until } });
+  }
+
+  async reset(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({ key });
+  }
+}
+
+/**
+ * In-process store for local development and tests
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  records = new Map<string, AttemptRecord & { expiresAt: Date }>();
+
+  async get(key: string): Promise<AttemptRecord | null> {
+    const record = this.records.get(key);
+    if (!record || record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return { failures: record.failures, lastFailureAt: record.lastFailureAt, lockedUntil: record.lockedUntil };
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<AttemptRecord> {
+    const current = await this.get(key);
+    const record = {
+      failures: (current?.failures || 0) + 1,
+      lastFailureAt: new Date(),
+      lockedUntil: current?.lockedUntil || null,
+      expiresAt: new Date(Math.max(expiresAt.getTime(), this.records.get(key)?.expiresAt.getTime() || 0))
+    };
+    this.records.set(key, record);
+    return { failures: record.failures, lastFailureAt: record.lastFailureAt, lockedUntil: record.lockedUntil };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      record.lockedUntil = until;
+      record.expiresAt = new Date(Math.max(until.getTime(), record.expiresAt.getTime()));
+    }
+  }
+
+  async reset(key?: string): Promise<void> {
+    if (key) {
+      this.records.delete(key);
+    } else {
+      this.records.clear();
+    }
+  }
+}
+
+const getLockoutMs = (): number => config.LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+
+export class BruteForceService {
+  private static store: AttemptStore | null = null;
+
+  /**
+   * Replace the active store (e.g. with a MemoryAttemptStore in tests)
+   */
+  static setStore(store: AttemptStore): void {
+    this.store = store;
+  }
+
+  static getStore(): AttemptStore {
+    if (!this.store) {
+      this.store = config.ATTEMPT_STORE === 'memory' ? new MemoryAttemptStore() : new MongoAttemptStore();
+    }
+    return this.store;
+  }
+
+  private static accountKey(subject: AttemptSubject): string {
+    return `${subject.scope}:account:${subject.account.trim().toLowerCase()}`;
+  }
+
+  private static ipKey(subject: AttemptSubject): string | null {
+    return subject.ipAddress ? `${subject.scope}:ip:${subject.ipAddress}` : null;
+  }
+
+  /**
+   * Seconds the caller has to wait before the next attempt, 0 if allowed.
+   * Accounts back off exponentially after each failure; IPs are only locked at
+   * their limit so users behind a shared address do not slow each other down.
+   */
+  static async getRetryAfter(subject: AttemptSubject): Promise<number> {
+    const store = this.getStore();
+    const ipKey = this.ipKey(subject);
+    const [account, ip] = await Promise.all([
+      store.get(this.accountKey(subject)),
+      ipKey ? store.get(ipKey) : null
+    ]);
+
+    const now = Date.now();
+    let waitUntil = 0;
+
+    [account, ip].forEach((record) => {
+      if (record?.lockedUntil && record.lockedUntil.getTime() > now) {
+        waitUntil = Math.max(waitUntil, record.lockedUntil.getTime());
+      }
+    });
+
+    if (account && account.failures > 0) {
+      const backoffMs = Math.min(
+        config.LOGIN_BACKOFF_SECONDS * 1000 * 2 ** (account.failures - 1),
+        getLockoutMs()
+      );
+      waitUntil = Math.max(waitUntil, account.lastFailureAt.getTime() + backoffMs);
+    }
+
+    return Math.max(0, Math.ceil((waitUntil - now) / 1000));
+  }
+
+  /**
+   * Count a failed attempt; locks the account or IP once it reaches its limit.
+   * Returns true when this failure locked the account.
+   */
+  static async recordFailure(subject: AttemptSubject): Promise<boolean> {
+    const store = this.getStore();
+    const expiresAt = new Date(Date.now() + getLockoutMs());
+    const accountKey = this.accountKey(subject);
+    const ipKey = this.ipKey(subject);
+
+    const [account, ip] = await Promise.all([
+      store.increment(accountKey, expiresAt),
+      ipKey ? store.increment(ipKey, expiresAt) : null
+    ]);
+
+    if (ip && ipKey && ip.failures >= config.LOGIN_IP_MAX_FAILURES && !ip.lockedUntil) {
+      await store.lock(ipKey, expiresAt);
+      logger.warn(`Locked ${subject.scope} attempts from IP ${subject.ipAddress} after ${ip.failures} failures`);
+    }
+
+    if (account.failures >= config.LOGIN_MAX_FAILURES && !account.lockedUntil) {
+      await store.lock(accountKey, expiresAt);
+      await this.handleLockout(subject, account.failures, expiresAt);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Clear the account counter after a successful attempt
+   */
+  static async recordSuccess(subject: AttemptSubject): Promise<void> {
+    await this.getStore().reset(this.accountKey(subject));
+  }
+
+  /**
+   * Record the lockout in the activity log and let the owner know
+   */
+  private static async handleLockout(subject: AttemptSubject, failures: number, lockedUntil: Date): Promise<void> {
+    logger.warn(`Locked ${subject.scope} attempts for account ${subject.account} after ${failures} failures`);
+
+    if (!subject.userId) {
+      return;
+    }
+
+    try {
+      await ActivityLogService.logActivity({
+        userId: subject.userId,
+        action: 'lockout',
+        resource: 'auth',
+        resourceId: subject.userId,
+        description: `Account locked until ${lockedUntil.toISOString()} after ${failures} failed ${subject.scope} attempts`,
+        status: 'failure',
+        statusCode: 429,
+        ipAddress: subject.ipAddress
+      });
+    } catch (error) {
+      logger.error('Failed to record account lockout:', error);
+    }
+
+    DomainEventService.emit('auth.accountLocked', {
+      userId: subject.userId,
+      scope: subject.scope,
+      failures,
+      lockedUntil,
+      ipAddress: subject.ipAddress
+    });
+  }
+}
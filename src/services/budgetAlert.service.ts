@@ -0,0 +1,107 @@
+// services/budgetAlert.service.ts
+import { Types } from 'mongoose';
+import Project, { IBudgetAlert, IProject } from '../models/project.model';
+import { NotificationService } from './notification.service';
+import { DomainEventService } from './domainEvent.service';
+
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+
+export class BudgetAlertService {
+  /**
+   * Percentage of initialBudget already spent (0 when no budget is set)
+   */
+  static getUtilization(project: Pick<IProject, 'initialBudget' | 'totalExpense'>): number {
+    if (!project.initialBudget || project.initialBudget <= 0) {
+      return 0;
+    }
+    return Math.round(((project.totalExpense || 0) / project.initialBudget) * 10000) / 100;
+  }
+
+  /**
+   * Compare current spending with the project's thresholds. Each threshold
+   * alerts once per crossing and is re-armed when spending drops below it.
+   */
+  static async evaluateProject(projectId: Types.ObjectId | string): Promise<IBudgetAlert[]> {
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return [];
+    }
+
+    const utilization = this.getUtilization(project);
+    const thresholds = project.budgetAlertThresholds?.length
+      ? project.budgetAlertThresholds
+      : DEFAULT_BUDGET_THRESHOLDS;
+    const crossed = project.crossedThresholds || [];
+
+    const rearmed = crossed.filter(threshold => utilization < threshold || !thresholds.includes(threshold));
+    if (rearmed.length > 0) {
+      await Project.updateOne(
+        { _id: project._id },
+        { $pull: { crossedThresholds: { $in: rearmed } } }
+      );
+    }
+
+    if (project.initialBudget <= 0) {
+      return [];
+    }
+
+    const triggered: IBudgetAlert[] = [];
+
+    for (const threshold of [...thresholds].sort((a, b) => a - b)) {
+      if (utilization < threshold) {
+        continue;
+      }
+
+      const alert: IBudgetAlert = {
+        threshold,
+        type: threshold >= 100 ? 'CRITICAL' : 'WARNING',
+        utilization,
+        totalExpense: project.totalExpense,
+        initialBudget: project.initialBudget,
+        triggeredAt: new Date()
+      };
+
+      // Conditional update so concurrent evaluations alert only once
+      const result = await Project.updateOne(
+        { _id: project._id, crossedThresholds: { $ne: threshold } },
+        {
+          $addToSet: { crossedThresholds: threshold },
+          $push: { budgetAlerts: alert }
+        }
+      );
+
+      if (result.modifiedCount === 0) {
+        continue;
+      }
+
+      triggered.push(alert);
+
+      await NotificationService.notifyProject(project, {
+        title: threshold >= 100 ? 'Budget exceeded' : `Budget ${threshold}% used`,
+        message: `Project ${project.title} (${project.code}) has spent ${project.totalExpense} ${project.currency} of its ${project.initialBudget} ${project.currency} budget (${utilization}%).`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: alert.type
+      }, 'BUDGET');
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Re-evaluate budget alerts whenever a transaction changes project totals
+   */
+  static registerEventListeners(): void {
+    DomainEventService.on('transaction.created', async ({ project }) => {
+      await this.evaluateProject(project._id as Types.ObjectId);
+    });
+
+    DomainEventService.on('transaction.updated', async ({ project }) => {
+      await this.evaluateProject(project._id as Types.ObjectId);
+    });
+
+    DomainEventService.on('transaction.deleted', async ({ project }) => {
+      await this.evaluateProject(project._id as Types.ObjectId);
+    });
+  }
+}
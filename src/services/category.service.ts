@@ -0,0 +1,162 @@
+// services/category.service.ts
+import { Types } from 'mongoose';
+import Category, { ICategory } from '../models/category.model';
+import Transaction from '../models/transaction.model';
+import { IProject } from '../models/project.model';
+
+export interface CategoryBudgetUtilization {
+  category: { _id: Types.ObjectId; name: string } | null;
+  allocated: number;
+  spent: number; // includes subcategories
+  remaining: number;
+  utilization: number; // % of allocated
+}
+
+export interface CategoryBudgetReport {
+  allocations: CategoryBudgetUtilization[];
+  totalAllocated: number;
+  unallocatedBudget: number; // initialBudget not assigned to any category
+  uncategorizedExpense: number;
+}
+
+export const MAX_TAGS = 20;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class CategoryService {
+  /**
+   * Categories a user can use on a project: their own user-level
+   * categories plus the ones defined on that project
+   */
+  static getScopeFilter(userId: Types.ObjectId | string, projectId?: Types.ObjectId | string | null) {
+    const scopes: any[] = [{ createdBy: new Types.ObjectId(userId), project: null }];
+    if (projectId) {
+      scopes.push({ project: new Types.ObjectId(projectId) });
+    }
+    return { $or: scopes };
+  }
+
+  /**
+   * Find a category usable on the project, or null
+   */
+  static async findUsableCategory(
+    categoryId: Types.ObjectId | string,
+    userId: Types.ObjectId | string,
+    projectId: Types.ObjectId | string
+  ): Promise<ICategory | null> {
+    if (!Types.ObjectId.isValid(categoryId)) {
+      return null;
+    }
+    return Category.findOne({ _id: categoryId, ...this.getScopeFilter(userId, projectId) });
+  }
+
+  /**
+   * The category id followed by the ids of all its subcategories
+   */
+  static async getDescendantIds(categoryId: Types.ObjectId | string): Promise<Types.ObjectId[]> {
+    const ids = [new Types.ObjectId(categoryId)];
+    let level = ids;
+
+    while (level.length > 0) {
+      const children = await Category.find({ parent: { $in: level } }).select('_id').lean();
+      level = children.map(child => child._id as Types.ObjectId);
+      ids.push(...level);
+    }
+
+    return ids;
+  }
+
+  /**
+   * True if `candidateParentId` is the category itself or one of its subcategories
+   */
+  static async wouldCreateCycle(
+    categoryId: Types.ObjectId | string,
+    candidateParentId: Types.ObjectId | string
+  ): Promise<boolean> {
+    const descendants = await this.getDescendantIds(categoryId);
+    return descendants.some(id => id.equals(candidateParentId));
+  }
+
+  /**
+   * Accept an array or a comma separated string; returns trimmed,
+   * lowercase, de-duplicated tags
+   */
+  static normalizeTags(input: unknown): string[] | null {
+    if (input === undefined || input === null || input === '') {
+      return [];
+    }
+
+    const raw = Array.isArray(input)
+      ? input
+      : typeof input === 'string' ? input.split(',') : null;
+
+    if (!raw || raw.some(tag => typeof tag !== 'string')) {
+      return null;
+    }
+
+    const tags = [...new Set(raw.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+    return tags.length > MAX_TAGS ? null : tags;
+  }
+
+  /**
+   * Spending per allocated category (including subcategories) for a project.
+   * Amounts are in project currency.
+   */
+  static async getBudgetUtilization(
+    project: Pick<IProject, '_id' | 'initialBudget' | 'categoryBudgets'>
+  ): Promise<CategoryBudgetReport> {
+    const projectId = project._id as Types.ObjectId;
+    const budgets = project.categoryBudgets || [];
+
+    const expenses = await Transaction.aggregate([
+      { $match: { project: projectId, type: 'expense', isDeleted: false } },
+      {
+        $group: {
+          _id: '$category',
+          spent: { $sum: { $ifNull: ['$convertedAmount', '$amount'] } }
+        }
+      }
+    ]);
+
+    const spentByCategory = new Map<string, number>();
+    let uncategorizedExpense = 0;
+    expenses.forEach((row) => {
+      if (row._id) {
+        spentByCategory.set(row._id.toString(), row.spent);
+      } else {
+        uncategorizedExpense += row.spent;
+      }
+    });
+
+    const categories = await Category.find({ _id: { $in: budgets.map(budget => budget.category) } })
+      .select('name')
+      .lean();
+
+    const allocations: CategoryBudgetUtilization[] = [];
+
+    for (const budget of budgets) {
+      const descendants = await this.getDescendantIds(budget.category.toString());
+      const spent = round(
+        descendants.reduce((sum, id) => sum + (spentByCategory.get(id.toString()) || 0), 0)
+      );
+      const category = categories.find(item => item._id.equals(budget.category.toString()));
+
+      allocations.push({
+        category: category ? { _id: category._id as Types.ObjectId, name: category.name } : null,
+        allocated: budget.amount,
+        spent,
+        remaining: round(budget.amount - spent),
+        utilization: budget.amount > 0 ? Math.round((spent / budget.amount) * 10000) / 100 : 0
+      });
+    }
+
+    const totalAllocated = round(budgets.reduce((sum, budget) => sum + budget.amount, 0));
+
+    return {
+      allocations,
+      totalAllocated,
+      unallocatedBudget: round((project.initialBudget || 0) - totalAllocated),
+      uncategorizedExpense: round(uncategorizedExpense)
+    };
+  }
+}
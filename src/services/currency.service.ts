@@ -0,0 +1,263 @@
+// services/currency.service.ts
+import { Types } from 'mongoose';
+import ExchangeRate from '../models/exchange.rate.model';
+import User from '../models/user.model';
+import { config } from '../config/config';
+import { ErrorResponse } from '../utils/errorResponse';
+
+export interface ExchangeRateInput {
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveDate?: Date | string;
+}
+
+// Totals converted into one currency; groups without an exchange rate keep their own currency
+export interface ConvertedTotals {
+  totals: Record<string, number>;
+  unconverted: { currency: string; totals: Record<string, number> }[];
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  errors: { row: number; message: string }[];
+}
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+const round = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Rates are stored per day (UTC midnight)
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export class CurrencyService {
+  static normalizeCode(code: string): string {
+    return (code || '').trim().toUpperCase();
+  }
+
+  static isValidCode(code: string): boolean {
+    return CURRENCY_REGEX.test(this.normalizeCode(code));
+  }
+
+  /**
+   * Currency used for a user's statistics: an explicit override, else the
+   * user's reporting currency, else the default currency
+   */
+  static async getReportingCurrency(
+    userId: Types.ObjectId | string | undefined,
+    override?: string
+  ): Promise<string> {
+    if (override) {
+      if (!this.isValidCode(override)) {
+        throw new ErrorResponse('Currency must be a 3-letter ISO code', 400);
+      }
+      return this.normalizeCode(override);
+    }
+
+    const user = userId ? await User.findById(userId).select('reportingCurrency').lean() : null;
+    return user?.reportingCurrency || config.DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Latest stored rate for base -> quote on or before the date, or null
+   */
+  private static async findStoredRate(base: string, quote: string, date: Date): Promise<number | null> {
+    const direct = await ExchangeRate.findOne({ base, quote, effectiveDate: { $lte: date } })
+      .sort({ effectiveDate: -1 })
+      .lean();
+    if (direct) return direct.rate;
+
+    const inverse = await ExchangeRate.findOne({ base: quote, quote: base, effectiveDate: { $lte: date } })
+      .sort({ effectiveDate: -1 })
+      .lean();
+    if (inverse) return 1 / inverse.rate;
+
+    return null;
+  }
+
+  /**
+   * Rate to convert one unit of `from` into `to` on the given date.
+   * Falls back to a cross rate through the default currency.
+   */
+  static async getRate(from: string, to: string, date: Date = new Date()): Promise<number> {
+    const base = this.normalizeCode(from);
+    const quote = this.normalizeCode(to);
+
+    if (base === quote) return 1;
+
+    const stored = await this.findStoredRate(base, quote, date);
+    if (stored !== null) return stored;
+
+    const pivot = config.DEFAULT_CURRENCY;
+    if (base !== pivot && quote !== pivot) {
+      const [toPivot, fromPivot] = await Promise.all([
+        this.findStoredRate(base, pivot, date),
+        this.findStoredRate(pivot, quote, date)
+      ]);
+      if (toPivot !== null && fromPivot !== null) {
+        return toPivot * fromPivot;
+      }
+    }
+
+    throw new ErrorResponse(
+      `No exchange rate from ${base} to ${quote} on or before ${date.toISOString().slice(0, 10)}`,
+      422
+    );
+  }
+
+  /**
+   * Convert an amount, returning the rate used and the rounded result
+   */
+  static async convert(
+    amount: number,
+    from: string,
+    to: string,
+    date: Date = new Date()
+  ): Promise<{ rate: number; amount: number }> {
+    const rate = await this.getRate(from, to, date);
+    return { rate, amount: round(amount * rate) };
+  }
+
+  /**
+   * Convert aggregation groups keyed by currency (`_id`) into one currency and
+   * sum the given fields. Missing or malformed codes count as the default currency.
+   * Groups without an exchange rate are returned unconverted instead of failing.
+   */
+  static async convertGroupedTotals(
+    groups: ({ _id: string } & Record<string, any>)[],
+    fields: string[],
+    to: string,
+    date: Date = new Date()
+  ): Promise<ConvertedTotals> {
+    const totals: Record<string, number> = {};
+    fields.forEach((field) => {
+      totals[field] = 0;
+    });
+    const unconverted: ConvertedTotals['unconverted'] = [];
+
+    const target = this.normalizeCode(to);
+    const rates = await Promise.all(groups.map(async (group) => {
+      const code = this.isValidCode(group._id) ? this.normalizeCode(group._id) : config.DEFAULT_CURRENCY;
+      if (code === target) {
+        return { code, rate: 1 };
+      }
+      try {
+        return { code, rate: await this.getRate(code, target, date) };
+      } catch (error) {
+        if (error instanceof ErrorResponse && error.statusCode === 422) {
+          return { code, rate: null };
+        }
+        throw error;
+      }
+    }));
+
+    groups.forEach((group, index) => {
+      const { code, rate } = rates[index];
+      if (rate === null) {
+        const groupTotals: Record<string, number> = {};
+        fields.forEach((field) => {
+          groupTotals[field] = round(group[field] || 0);
+        });
+        unconverted.push({ currency: code, totals: groupTotals });
+        return;
+      }
+
+      fields.forEach((field) => {
+        totals[field] = round(totals[field] + (group[field] || 0) * rate);
+      });
+    });
+
+    return { totals, unconverted };
+  }
+
+  /**
+   * Create or replace the rate for a pair on a given day
+   */
+  static async upsertRate(
+    input: ExchangeRateInput,
+    source: 'manual' | 'import',
+    userId?: Types.ObjectId | string
+  ) {
+    const base = this.normalizeCode(input.base);
+    const quote = this.normalizeCode(input.quote);
+    const rate = Number(input.rate);
+    const effectiveDate = startOfDay(input.effectiveDate ? new Date(input.effectiveDate) : new Date());
+
+    if (!this.isValidCode(base) || !this.isValidCode(quote)) {
+      throw new ErrorResponse('Currencies must be 3-letter ISO codes', 400);
+    }
+    if (base === quote) {
+      throw new ErrorResponse('Base and quote currency must differ', 400);
+    }
+    if (!rate || isNaN(rate) || rate <= 0) {
+      throw new ErrorResponse('Rate must be a number greater than 0', 400);
+    }
+    if (isNaN(effectiveDate.getTime())) {
+      throw new ErrorResponse('Invalid effective date format', 400);
+    }
+
+    return ExchangeRate.findOneAndUpdate(
+      { base, quote, effectiveDate },
+      { $set: { rate, source, createdBy: userId } },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  /**
+   * Parse a rates file: JSON array (or { rates: [...] }) or CSV with a
+   * "base,quote,rate,effectiveDate" header
+   */
+  static parseRatesFile(content: string, fileName: string = ''): ExchangeRateInput[] {
+    const text = content.trim();
+
+    if (fileName.toLowerCase().endsWith('.json') || text.startsWith('[') || text.startsWith('{')) {
+      const parsed = JSON.parse(text);
+      const rows = Array.isArray(parsed) ? parsed : parsed.rates;
+      if (!Array.isArray(rows)) {
+        throw new ErrorResponse('JSON file must contain an array of rates', 400);
+      }
+      return rows;
+    }
+
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+    const headers = (headerLine || '').split(',').map(header => header.trim());
+
+    if (!['base', 'quote', 'rate'].every(column => headers.includes(column))) {
+      throw new ErrorResponse('CSV header must include base, quote and rate columns', 400);
+    }
+
+    return lines.map((line) => {
+      const values = line.split(',').map(value => value.trim());
+      const row: any = {};
+      headers.forEach((header, index) => {
+        row[header] = values[index];
+      });
+      return row as ExchangeRateInput;
+    });
+  }
+
+  /**
+   * Import many rates; invalid rows are reported and skipped
+   */
+  static async importRates(
+    rows: ExchangeRateInput[],
+    userId?: Types.ObjectId | string
+  ): Promise<ExchangeRateImportResult> {
+    const result: ExchangeRateImportResult = { imported: 0, errors: [] };
+
+    for (let i = 0; i < rows.length; i++) {
+      try {
+        await this.upsertRate(rows[i], 'import', userId);
+        result.imported++;
+      } catch (error: any) {
+        result.errors.push({ row: i + 1, message: error.message });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,59 @@
+// services/domainEvent.service.ts
+import { EventEmitter } from 'events';
+import { Types } from 'mongoose';
+import { IProject } from '../models/project.model';
+import { IParty } from '../models/party.model';
+import { ITransaction } from '../models/transaction.model';
+import { IProjectInvitation } from '../models/project.invitation.model';
+import { IWorkspace } from '../models/workspace.model';
+import { IWorkspaceInvitation } from '../models/workspace.invitation.model';
+import { logger } from '../utils/logger';
+
+type ActorId = Types.ObjectId | string;
+
+export interface DomainEventMap {
+  'transaction.created': { transaction: ITransaction; project: IProject; actorId?: ActorId };
+  'transaction.updated': { transaction: ITransaction; project: IProject; actorId?: ActorId };
+  'transaction.deleted': { transaction: ITransaction; project: IProject; actorId?: ActorId };
+  'project.statusChanged': { project: IProject; previousStatus: IProject['status']; reason?: string; actorId?: ActorId };
+  'project.trashed': { project: IProject; actorId?: ActorId };
+  'project.restored': { project: IProject; actorId?: ActorId };
+  'project.invitationAnswered': { invitation: IProjectInvitation; project: IProject; userId: ActorId; accepted: boolean };
+  'project.memberRemoved': { project: IProject; userId: ActorId; actorId?: ActorId };
+  'workspace.invitationAnswered': { invitation: IWorkspaceInvitation; workspace: IWorkspace; userId: ActorId; accepted: boolean };
+  'workspace.memberRemoved': { workspace: IWorkspace; userId: ActorId; actorId?: ActorId };
+  'party.created': { party: IParty; project: IProject; actorId?: ActorId };
+  'party.deleted': { party: IParty; project: IProject; actorId?: ActorId };
+  'auth.accountLocked': { userId: ActorId; scope: string; failures: number; lockedUntil: Date; ipAddress?: string };
+  'user.statusChanged': { userId: ActorId; isActive: boolean; reason?: string; until?: Date | null; actorId?: ActorId };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+type DomainEventHandler<K extends DomainEventName> = (payload: DomainEventMap[K]) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+
+export class DomainEventService {
+  /**
+   * Publish a domain event; handlers run after the caller continues
+   */
+  static emit<K extends DomainEventName>(name: K, payload: DomainEventMap[K]): void {
+    emitter.emit(name, payload);
+  }
+
+  /**
+   * Subscribe to a domain event. Handler errors are logged, never rethrown
+   */
+  static on<K extends DomainEventName>(name: K, handler: DomainEventHandler<K>): void {
+    emitter.on(name, (payload: DomainEventMap[K]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch((error) => logger.error(`Domain event handler for ${name} failed:`, error));
+    });
+  }
+
+  static removeAllListeners(): void {
+    emitter.removeAllListeners();
+  }
+}
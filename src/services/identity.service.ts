@@ -0,0 +1,268 @@
+// services/identity.service.ts
+import { Types } from 'mongoose';
+import Auth, { IAuth, AuthProvider } from '../models/auth.model';
+import User, { IUserDocument } from '../models/user.model';
+import { TwoFactorService } from './twoFactor.service';
+import { BruteForceService, AttemptSubject } from './bruteForce.service';
+import { verifyGoogleToken } from '../utils/GoogleOAuth';
+import { verifyFacebookToken } from '../utils/FacebookOAuth';
+import { ErrorResponse } from '../utils/errorResponse';
+
+export type SocialProvider = Exclude<AuthProvider, 'email'>;
+
+export interface SocialProfile {
+  provider: SocialProvider;
+  providerId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+// Proof of identity before changing how an account logs in: the password or a fresh
+// token of a linked social account, plus a 2FA code when 2FA is on
+export interface ReauthCredentials {
+  password?: string;
+  idToken?: string; // Google
+  accessToken?: string; // Facebook
+  code?: string;
+  recoveryCode?: string;
+}
+
+// New identity to link: a Google ID token, a Facebook access token, or a password
+export interface LinkCredentials {
+  token?: string;
+  password?: string;
+  confirmPassword?: string;
+}
+
+export const PROVIDER_NAMES: Record<AuthProvider, string> = {
+  email: 'Email and password',
+  google: 'Google',
+  facebook: 'Facebook'
+};
+
+export class IdentityService {
+  /**
+   * Verify a Google ID token or a Facebook access token
+   */
+  static async verifySocialToken(provider: SocialProvider, token: string): Promise<SocialProfile> {
+    if (provider === 'google') {
+      const profile = await verifyGoogleToken(token);
+      return {
+        provider,
+        providerId: profile.googleId,
+        email: profile.email.toLowerCase(),
+        emailVerified: profile.emailVerified,
+        name: profile.name,
+        picture: profile.picture
+      };
+    }
+
+    // Facebook only shares confirmed email addresses
+    const profile = await verifyFacebookToken(token);
+    return {
+      provider,
+      providerId: profile.facebookId,
+      email: profile.email,
+      emailVerified: !!profile.email,
+      name: profile.name,
+      picture: profile.picture
+    };
+  }
+
+  static async getIdentities(userId: Types.ObjectId | string): Promise<IAuth[]> {
+    return Auth.find({ user: userId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Find or create the user signing in with a social account. Accounts are only
+   * merged automatically when nobody has proven owning the existing account's
+   * email yet (its identities are all unverified); those identities are dropped
+   * so a password set by someone else cannot be used later. Otherwise the owner
+   * has to log in and link the provider themselves.
+   */
+  static async resolveSocialSignIn(
+    profile: SocialProfile,
+    photo?: string
+  ): Promise<{ user: IUserDocument; auth: IAuth }> {
+    const name = PROVIDER_NAMES[profile.provider];
+
+    const linked = await Auth.findOne({ provider: profile.provider, providerId: profile.providerId });
+    if (linked) {
+      const user = await User.findById(linked.user);
+      if (!user) {
+        throw new ErrorResponse('User profile not found', 404);
+      }
+      return { user, auth: linked };
+    }
+
+    if (!profile.email) {
+      throw new ErrorResponse(`Your ${name} account has no email address. Please sign up with email instead.`, 400);
+    }
+    if (!profile.emailVerified) {
+      throw new ErrorResponse(`Your ${name} email address is not verified`, 403);
+    }
+
+    let user = await User.findOne({ email: profile.email });
+    if (user) {
+      const identities = await Auth.find({ user: user._id }).select('isVerified');
+      if (identities.some(identity => identity.isVerified)) {
+        throw new ErrorResponse(
+          `Email already registered with another login method. Log in and link your ${name} account from your profile.`,
+          409
+        );
+      }
+      await Auth.deleteMany({ user: user._id, isVerified: false });
+    } else {
+      user = await User.create({
+        name: profile.name || `${name} User`,
+        email: profile.email,
+        role: 'agent',
+        profileImage: photo || profile.picture
+      });
+    }
+
+    const auth = await Auth.create({
+      user: user._id,
+      provider: profile.provider,
+      providerId: profile.providerId,
+      isVerified: true
+    });
+
+    return { user, auth };
+  }
+
+  /**
+   * Confirm the logged-in user is present; throws 401 otherwise
+   */
+  static async reauthenticate(
+    userId: Types.ObjectId | string,
+    credentials: ReauthCredentials = {},
+    ipAddress?: string
+  ): Promise<void> {
+    const attempt: AttemptSubject = { scope: 'reauth', account: userId.toString(), ipAddress, userId };
+    const retryAfter = await BruteForceService.getRetryAfter(attempt);
+    if (retryAfter > 0) {
+      throw new ErrorResponse(`Too many failed attempts. Try again in ${retryAfter} seconds.`, 429);
+    }
+
+    const identities = await Auth.find({ user: userId }).select('+password');
+    let verified = false;
+
+    if (credentials.password) {
+      const emailIdentity = identities.find(identity => identity.provider === 'email');
+      verified = !!emailIdentity && await emailIdentity.comparePassword(credentials.password);
+    } else if (credentials.idToken || credentials.accessToken) {
+      const provider: SocialProvider = credentials.idToken ? 'google' : 'facebook';
+      try {
+        const profile = await this.verifySocialToken(provider, (credentials.idToken || credentials.accessToken)!);
+        verified = identities.some(
+          identity => identity.provider === provider && identity.providerId === profile.providerId
+        );
+      } catch (error) {
+        verified = false;
+      }
+    }
+
+    if (!verified) {
+      await BruteForceService.recordFailure(attempt);
+      throw new ErrorResponse('Please confirm it is you with your password or a linked account', 401);
+    }
+
+    const twoFactorIdentity = identities.find(identity => identity.twoFactor?.enabled);
+    if (twoFactorIdentity) {
+      if (!credentials.code && !credentials.recoveryCode) {
+        throw new ErrorResponse('Two-factor authentication code required', 401);
+      }
+
+      const twoFactorVerified = await TwoFactorService.verify(twoFactorIdentity._id as Types.ObjectId, {
+        code: credentials.code,
+        recoveryCode: credentials.recoveryCode
+      });
+      if (!twoFactorVerified) {
+        await BruteForceService.recordFailure(attempt);
+        throw new ErrorResponse('Invalid authentication code', 401);
+      }
+    }
+
+    await BruteForceService.recordSuccess(attempt);
+  }
+
+  /**
+   * Add a login method to the user
+   */
+  static async linkProvider(
+    userId: Types.ObjectId | string,
+    provider: AuthProvider,
+    credentials: LinkCredentials
+  ): Promise<IAuth> {
+    const name = PROVIDER_NAMES[provider];
+
+    if (await Auth.exists({ user: userId, provider })) {
+      throw new ErrorResponse(`${name} is already linked to your account`, 409);
+    }
+
+    if (provider === 'email') {
+      if (!credentials.password || !credentials.confirmPassword) {
+        throw new ErrorResponse('Password and confirm password are required', 400);
+      }
+
+      // The account email was already verified by the social provider it came from
+      const auth = new Auth({ user: userId, provider: 'email', password: credentials.password, isVerified: true });
+      (auth as any).confirmPassword = credentials.confirmPassword;
+      await auth.save();
+      return auth;
+    }
+
+    if (!credentials.token) {
+      throw new ErrorResponse(`${name} token is required`, 400);
+    }
+
+    let profile: SocialProfile;
+    try {
+      profile = await this.verifySocialToken(provider, credentials.token);
+    } catch (error) {
+      if (error instanceof ErrorResponse) {
+        throw error;
+      }
+      throw new ErrorResponse(`Invalid ${name} token`, 401);
+    }
+
+    if (await Auth.exists({ provider, providerId: profile.providerId })) {
+      throw new ErrorResponse(`This ${name} account is already linked to another user`, 409);
+    }
+
+    return Auth.create({
+      user: userId,
+      provider,
+      providerId: profile.providerId,
+      isVerified: true
+    });
+  }
+
+  /**
+   * Remove a login method; the last one cannot be removed
+   */
+  static async unlinkProvider(userId: Types.ObjectId | string, provider: AuthProvider): Promise<void> {
+    const identities = await Auth.find({ user: userId }).sort({ createdAt: 1 });
+    const identity = identities.find(item => item.provider === provider);
+
+    if (!identity) {
+      throw new ErrorResponse(`${PROVIDER_NAMES[provider]} is not linked to your account`, 404);
+    }
+
+    const remaining = identities.filter(item => item.provider !== provider);
+    if (remaining.length === 0) {
+      throw new ErrorResponse('You cannot remove your only login method', 409);
+    }
+
+    // 2FA belongs to the user, not to the identity it happens to be stored on
+    if (identity.twoFactor?.enabled) {
+      const target = remaining.find(item => item.provider === 'email') || remaining[0];
+      await TwoFactorService.transfer(identity._id as Types.ObjectId, target._id as Types.ObjectId);
+    }
+
+    await identity.deleteOne();
+  }
+}
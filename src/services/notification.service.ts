@@ -0,0 +1,242 @@
+// services/notification.service.ts
+import { Types } from 'mongoose';
+import Notification, { INotification, NotificationCategory } from '../models/notification.model';
+import User from '../models/user.model';
+import ProjectMember from '../models/project.member.model';
+import { IProject } from '../models/project.model';
+import { PushService } from './push.service';
+import { ProjectTrashService } from './projectTrash.service';
+import { DomainEventService } from './domainEvent.service';
+import { sendEmail } from '../utils/sendEmail';
+import { logger } from '../utils/logger';
+
+export interface CreateNotificationData {
+  recipient: Types.ObjectId | string;
+  title: string;
+  message: string;
+  entityType: INotification['entityType'];
+  entityId?: Types.ObjectId | string;
+  type?: INotification['type'];
+}
+
+export class NotificationService {
+  /**
+   * Create a notification and push it to the recipient's devices
+   */
+  static async createNotification(data: CreateNotificationData): Promise<INotification> {
+    const notification = await Notification.create(data);
+
+    // Push delivery runs in the background and must not fail the caller
+    PushService.dispatchNotification(notification).catch((error) => {
+      logger.error(`Push dispatch failed for notification ${notification._id}:`, error);
+    });
+
+    return notification;
+  }
+
+  /**
+   * Check whether the user muted a notification category
+   */
+  static async isCategoryMuted(
+    userId: Types.ObjectId | string,
+    category: NotificationCategory
+  ): Promise<boolean> {
+    const user = await User.findById(userId).select('notificationPreferences').lean();
+    return !!user?.notificationPreferences?.mutedCategories?.includes(category);
+  }
+
+  /**
+   * Create a notification unless the recipient muted its category
+   */
+  static async notifyUser(
+    data: CreateNotificationData,
+    category: NotificationCategory
+  ): Promise<INotification | null> {
+    if (await this.isCategoryMuted(data.recipient, category)) {
+      return null;
+    }
+    return this.createNotification(data);
+  }
+
+  /**
+   * Notify everyone working on the project: the owner and its members
+   */
+  static async notifyProject(
+    project: Pick<IProject, '_id' | 'createdBy'>,
+    data: Omit<CreateNotificationData, 'recipient'>,
+    category: NotificationCategory
+  ): Promise<void> {
+    const members = await ProjectMember.find({ project: project._id }).select('user').lean();
+    const recipients = [project.createdBy.toString(), ...members.map(member => member.user.toString())];
+    await Promise.all(recipients.map(recipient => this.notifyUser({ ...data, recipient }, category)));
+  }
+
+  /**
+   * Turn project, party and transaction domain events into notifications for the project's members,
+   * workspace membership changes into notices for the member, and account lockouts into security
+   * notices for the account owner
+   */
+  static registerEventListeners(): void {
+    DomainEventService.on('transaction.created', async ({ transaction, project }) => {
+      await this.notifyProject(project, {
+        title: transaction.type === 'income' ? 'Income recorded' : 'Expense recorded',
+        message: `${transaction.type === 'income' ? 'Income' : 'Expense'} of ${transaction.amount} ${project.currency} added to project ${project.title} (${project.code}).`,
+        entityType: 'TRANSACTION',
+        entityId: transaction._id as Types.ObjectId,
+        type: 'INFO'
+      }, 'TRANSACTION');
+    });
+
+    DomainEventService.on('transaction.deleted', async ({ transaction, project }) => {
+      await this.notifyProject(project, {
+        title: 'Transaction deleted',
+        message: `A ${transaction.type} of ${transaction.amount} ${project.currency} was removed from project ${project.title} (${project.code}).`,
+        entityType: 'TRANSACTION',
+        entityId: transaction._id as Types.ObjectId,
+        type: 'WARNING'
+      }, 'TRANSACTION');
+    });
+
+    DomainEventService.on('project.statusChanged', async ({ project, previousStatus, reason }) => {
+      await this.notifyProject(project, {
+        title: 'Project status updated',
+        message: `Project ${project.title} (${project.code}) moved from ${previousStatus} to ${project.status}.${reason ? ` Reason: ${reason}` : ''}`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: project.status === 'COMPLETED' ? 'SUCCESS' : 'INFO'
+      }, 'PROJECT');
+    });
+
+    DomainEventService.on('project.trashed', async ({ project }) => {
+      await this.notifyProject(project, {
+        title: 'Project moved to trash',
+        message: `Project ${project.title} (${project.code}) was moved to the trash with its parties and transactions. It can be restored until ${ProjectTrashService.getPurgeDate(project.deletedAt!).toISOString()}.`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: 'WARNING'
+      }, 'PROJECT');
+    });
+
+    DomainEventService.on('project.restored', async ({ project }) => {
+      await this.notifyProject(project, {
+        title: 'Project restored',
+        message: `Project ${project.title} (${project.code}) was restored from the trash.`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: 'INFO'
+      }, 'PROJECT');
+    });
+
+    DomainEventService.on('party.created', async ({ party, project }) => {
+      await this.notifyProject(project, {
+        title: `${party.partyType === 'CLIENT' ? 'Client' : 'Vendor'} added`,
+        message: `${party.name} was added to project ${project.title} (${project.code}).`,
+        entityType: 'PARTY',
+        entityId: party._id as Types.ObjectId,
+        type: 'INFO'
+      }, 'PARTY');
+    });
+
+    DomainEventService.on('party.deleted', async ({ party, project }) => {
+      await this.notifyProject(project, {
+        title: `${party.partyType === 'CLIENT' ? 'Client' : 'Vendor'} removed`,
+        message: `${party.name} was removed from project ${project.title} (${project.code}).`,
+        entityType: 'PARTY',
+        entityId: party._id as Types.ObjectId,
+        type: 'WARNING'
+      }, 'PARTY');
+    });
+
+    DomainEventService.on('project.invitationAnswered', async ({ invitation, project, accepted }) => {
+      await this.notifyUser({
+        recipient: invitation.invitedBy.toString(),
+        title: accepted ? 'Invitation accepted' : 'Invitation declined',
+        message: `${invitation.email} ${accepted ? 'joined' : 'declined to join'} project ${project.title} (${project.code}).`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: accepted ? 'SUCCESS' : 'INFO'
+      }, 'PROJECT');
+    });
+
+    DomainEventService.on('project.memberRemoved', async ({ project, userId, actorId }) => {
+      // Members leaving on their own are not told about it
+      if (actorId && actorId.toString() === userId.toString()) {
+        return;
+      }
+
+      await this.notifyUser({
+        recipient: userId,
+        title: 'Removed from project',
+        message: `You no longer have access to project ${project.title} (${project.code}).`,
+        entityType: 'PROJECT',
+        entityId: project._id as Types.ObjectId,
+        type: 'WARNING'
+      }, 'PROJECT');
+    });
+
+    // Workspace membership changes what the user can see, so these cannot be muted
+    DomainEventService.on('workspace.invitationAnswered', async ({ invitation, workspace, accepted }) => {
+      await this.createNotification({
+        recipient: invitation.invitedBy,
+        title: accepted ? 'Invitation accepted' : 'Invitation declined',
+        message: `${invitation.email} ${accepted ? 'joined' : 'declined to join'} workspace ${workspace.name}.`,
+        entityType: 'SYSTEM',
+        entityId: workspace._id,
+        type: accepted ? 'SUCCESS' : 'INFO'
+      });
+    });
+
+    DomainEventService.on('workspace.memberRemoved', async ({ workspace, userId, actorId }) => {
+      if (actorId && actorId.toString() === userId.toString()) {
+        return;
+      }
+
+      await this.createNotification({
+        recipient: userId,
+        title: 'Removed from workspace',
+        message: `You no longer have access to workspace ${workspace.name}.`,
+        entityType: 'SYSTEM',
+        entityId: workspace._id,
+        type: 'WARNING'
+      });
+    });
+
+    // Security notices cannot be muted
+    DomainEventService.on('auth.accountLocked', async ({ userId, failures, lockedUntil, ipAddress }) => {
+      const message = `Sign-in was locked until ${lockedUntil.toISOString()} after ${failures} failed attempts${ipAddress ? ` (last from ${ipAddress})` : ''}. If this was not you, reset your password.`;
+
+      await this.createNotification({
+        recipient: userId,
+        title: 'Account temporarily locked',
+        message,
+        entityType: 'SYSTEM',
+        type: 'CRITICAL'
+      });
+
+      const user = await User.findById(userId).select('email').lean();
+      if (user?.email) {
+        await sendEmail({ to: user.email, subject: 'Your account was temporarily locked', html: `<p>${message}</p>` });
+      }
+    });
+
+    DomainEventService.on('user.statusChanged', async ({ userId, isActive, reason, until }) => {
+      const title = isActive ? 'Account reactivated' : until ? 'Account suspended' : 'Account deactivated';
+      const message = isActive
+        ? 'Your account has been reactivated. You can sign in again.'
+        : `Your account has been ${until ? `suspended until ${until.toISOString()}` : 'deactivated'} and you have been signed out on all devices.${reason ? ` Reason: ${reason}` : ''}`;
+
+      await this.createNotification({
+        recipient: userId,
+        title,
+        message,
+        entityType: 'SYSTEM',
+        type: isActive ? 'INFO' : 'CRITICAL'
+      });
+
+      const user = await User.findById(userId).select('email').lean();
+      if (user?.email) {
+        await sendEmail({ to: user.email, subject: title, html: `<p>${message}</p>` });
+      }
+    });
+  }
+}
@@ -0,0 +1,159 @@
+// services/projectAccess.service.ts
+import { Types } from 'mongoose';
+import Project, { IProject } from '../models/project.model';
+import ProjectMember, { ProjectMemberRole } from '../models/project.member.model';
+import WorkspaceMember from '../models/workspace.member.model';
+import { WorkspaceService } from './workspace.service';
+import { ErrorResponse } from '../utils/errorResponse';
+
+// The signed-in user as set on req.user by verifyTokenMiddleware
+export interface ProjectActor {
+  id: Types.ObjectId | string;
+  role: string;
+  workspaceId?: Types.ObjectId | string | null;
+}
+
+export type ProjectRole = 'owner' | 'admin' | 'workspace_admin' | ProjectMemberRole;
+export type ProjectPermission = 'read' | 'write' | 'manage';
+
+// read: view the project, its parties and transactions; write: change them;
+// manage: share or delete the project
+export const PROJECT_ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+  owner: ['read', 'write', 'manage'],
+  admin: ['read', 'write', 'manage'],
+  workspace_admin: ['read', 'write', 'manage'],
+  editor: ['read', 'write'],
+  viewer: ['read']
+};
+
+export interface ProjectAccessOptions {
+  includeTrashed?: boolean; // projects in the trash answer 404 unless set
+}
+
+const PERMISSION_VERBS: Record<ProjectPermission, string> = {
+  read: 'view',
+  write: 'edit',
+  manage: 'manage'
+};
+
+export class ProjectAccessService {
+  /**
+   * The user's role on the project, or null without access. Admins can act on every project;
+   * owners and admins of the project's workspace manage it and other workspace members view it
+   * unless the project gave them a higher role.
+   */
+  static async getRole(
+    project: Pick<IProject, '_id' | 'createdBy' | 'workspace'>,
+    actor: ProjectActor
+  ): Promise<ProjectRole | null> {
+    if (project.createdBy && project.createdBy.toString() === actor.id.toString()) {
+      return 'owner';
+    }
+    if (actor.role === 'admin') {
+      return 'admin';
+    }
+
+    const [member, workspaceMember] = await Promise.all([
+      ProjectMember.findOne({ project: project._id, user: actor.id }).select('role').lean(),
+      project.workspace
+        ? WorkspaceMember.findOne({ workspace: project.workspace, user: actor.id }).select('role').lean()
+        : null
+    ]);
+
+    if (workspaceMember && workspaceMember.role !== 'member') {
+      return 'workspace_admin';
+    }
+    if (member) {
+      return member.role;
+    }
+    return workspaceMember ? 'viewer' : null;
+  }
+
+  static can(role: ProjectRole | null, permission: ProjectPermission): boolean {
+    return !!role && PROJECT_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  /**
+   * Check access to an already loaded project. Projects the user has no role on
+   * answer 404 like missing ones so their existence is not revealed, and so do
+   * projects in the trash together with their parties and transactions; a role
+   * without the permission answers 403.
+   */
+  static async assertAccess(
+    project: IProject | null,
+    actor: ProjectActor | undefined,
+    permission: ProjectPermission,
+    options: ProjectAccessOptions = {}
+  ): Promise<IProject> {
+    if (!actor) {
+      throw new ErrorResponse('User not authenticated', 401);
+    }
+
+    const visible = project && (options.includeTrashed || !project.deletedAt);
+    const role = visible ? await this.getRole(project, actor) : null;
+    if (!project || !role) {
+      throw new ErrorResponse('Project not found', 404);
+    }
+
+    if (!this.can(role, permission)) {
+      throw new ErrorResponse(`You do not have permission to ${PERMISSION_VERBS[permission]} this project`, 403);
+    }
+
+    return project;
+  }
+
+  /**
+   * Load a project the user may act on; throws 400, 404 or 403
+   */
+  static async authorize(
+    projectId: Types.ObjectId | string | undefined,
+    actor: ProjectActor | undefined,
+    permission: ProjectPermission,
+    options: ProjectAccessOptions = {}
+  ): Promise<IProject> {
+    if (!projectId || !Types.ObjectId.isValid(projectId)) {
+      throw new ErrorResponse('Invalid project ID format', 400);
+    }
+
+    const project = await Project.findById(projectId);
+    return this.assertAccess(project, actor, permission, options);
+  }
+
+  /**
+   * Project filter for the lists of the session's current workspace: all of its projects, plus in
+   * the personal workspace the projects the user owns or was invited to in workspaces they do not
+   * belong to (so shared projects stay reachable). Projects in the trash are left out.
+   */
+  static async getAccessFilter(actor: ProjectActor): Promise<Record<string, any>> {
+    const { workspace } = await WorkspaceService.getCurrent(actor);
+    if (!workspace.isPersonal) {
+      return { workspace: workspace._id, deletedAt: null };
+    }
+
+    const [memberships, workspaceIds] = await Promise.all([
+      ProjectMember.find({ user: actor.id }).select('project').lean(),
+      WorkspaceMember.find({ user: actor.id }).distinct('workspace')
+    ]);
+    return {
+      deletedAt: null,
+      $or: [
+        { workspace: workspace._id },
+        {
+          workspace: { $nin: workspaceIds },
+          $or: [
+            { createdBy: new Types.ObjectId(actor.id) },
+            { _id: { $in: memberships.map(membership => membership.project) } }
+          ]
+        }
+      ]
+    };
+  }
+
+  /**
+   * Ids of the projects listed in the session's current workspace
+   */
+  static async getAccessibleProjectIds(actor: ProjectActor): Promise<Types.ObjectId[]> {
+    const projects = await Project.find(await this.getAccessFilter(actor)).select('_id');
+    return projects.map(project => project._id as Types.ObjectId);
+  }
+}
@@ -0,0 +1,235 @@
+// services/projectMember.service.ts
+import { Types } from 'mongoose';
+import Project, { IProject } from '../models/project.model';
+import ProjectMember, { PROJECT_MEMBER_ROLES, ProjectMemberRole } from '../models/project.member.model';
+import ProjectInvitation, { IProjectInvitation } from '../models/project.invitation.model';
+import User from '../models/user.model';
+import { DomainEventService } from './domainEvent.service';
+import { config } from '../config/config';
+import { sendEmail } from '../utils/sendEmail';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+export interface ProjectMemberSummary {
+  user: { _id: Types.ObjectId; name: string; email: string; profileImage?: string };
+  role: 'owner' | ProjectMemberRole;
+  joinedAt: Date;
+}
+
+const EMAIL_REGEX = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
+
+const assertMemberRole = (role: unknown): ProjectMemberRole => {
+  if (!PROJECT_MEMBER_ROLES.includes(role as ProjectMemberRole)) {
+    throw new ErrorResponse(`Role must be one of ${PROJECT_MEMBER_ROLES.join(', ')}`, 400);
+  }
+  return role as ProjectMemberRole;
+};
+
+export class ProjectMemberService {
+  /**
+   * The owner followed by the members in the order they joined
+   */
+  static async listMembers(project: IProject): Promise<ProjectMemberSummary[]> {
+    const [owner, members] = await Promise.all([
+      User.findById(project.createdBy).select('name email profileImage').lean<ProjectMemberSummary['user']>(),
+      ProjectMember.find({ project: project._id })
+        .populate<{ user: ProjectMemberSummary['user'] | null }>('user', 'name email profileImage')
+        .sort({ createdAt: 1 })
+        .lean()
+    ]);
+
+    const summaries: ProjectMemberSummary[] = [];
+    if (owner) {
+      summaries.push({ user: owner, role: 'owner', joinedAt: project.createdAt });
+    }
+    members.forEach((member) => {
+      if (member.user) {
+        summaries.push({ user: member.user, role: member.role, joinedAt: member.createdAt });
+      }
+    });
+
+    return summaries;
+  }
+
+  /**
+   * Invite someone by email to work on the project. They accept or decline after
+   * signing in (or signing up) with that email.
+   */
+  static async invite(
+    project: IProject,
+    email: unknown,
+    role: unknown,
+    invitedBy: Types.ObjectId | string
+  ): Promise<IProjectInvitation> {
+    const normalizedEmail = typeof email === 'string' ? email.toLowerCase().trim() : '';
+    if (!EMAIL_REGEX.test(normalizedEmail)) {
+      throw new ErrorResponse('Please provide a valid email address', 400);
+    }
+    const memberRole = assertMemberRole(role);
+
+    const invitee = await User.findOne({ email: normalizedEmail }).select('_id');
+    if (invitee) {
+      if (invitee._id.equals(project.createdBy)) {
+        throw new ErrorResponse('This user owns the project', 409);
+      }
+      if (await ProjectMember.exists({ project: project._id, user: invitee._id })) {
+        throw new ErrorResponse('This user is already a member of the project', 409);
+      }
+    }
+
+    // An expired invitation no longer blocks a new one
+    await ProjectInvitation.updateMany(
+      { project: project._id, email: normalizedEmail, status: 'pending', expiresAt: { $lte: new Date() } },
+      { $set: { status: 'expired' } }
+    );
+    if (await ProjectInvitation.exists({ project: project._id, email: normalizedEmail, status: 'pending' })) {
+      throw new ErrorResponse('An invitation has already been sent to this email', 409);
+    }
+
+    const invitation = await ProjectInvitation.create({
+      project: project._id,
+      email: normalizedEmail,
+      role: memberRole,
+      invitedBy,
+      expiresAt: new Date(Date.now() + config.PROJECT_INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    const inviter = await User.findById(invitedBy).select('name').lean();
+    try {
+      await sendEmail({
+        to: normalizedEmail,
+        subject: `You have been invited to ${project.title}`,
+        html: `<p>${inviter?.name || 'A user'} invited you to join the project <b>${project.title} (${project.code})</b> as ${memberRole}.</p>`
+          + `<p>Sign in with this email address to accept or decline. The invitation expires on ${invitation.expiresAt.toISOString()}.</p>`
+      });
+    } catch (error) {
+      await invitation.deleteOne();
+      logger.error('Failed to send project invitation email:', error);
+      throw new ErrorResponse('Could not send the invitation email. Please try again later.', 502);
+    }
+
+    return invitation;
+  }
+
+  static async listInvitations(projectId: Types.ObjectId | string): Promise<IProjectInvitation[]> {
+    return ProjectInvitation.find({ project: projectId, status: 'pending', expiresAt: { $gt: new Date() } })
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+  }
+
+  static async revokeInvitation(projectId: Types.ObjectId | string, invitationId: string): Promise<IProjectInvitation> {
+    const invitation = Types.ObjectId.isValid(invitationId)
+      ? await ProjectInvitation.findOneAndUpdate(
+          { _id: invitationId, project: projectId, status: 'pending' },
+          { $set: { status: 'revoked', respondedAt: new Date() } },
+          { new: true }
+        )
+      : null;
+    if (!invitation) {
+      throw new ErrorResponse('Invitation not found', 404);
+    }
+    return invitation;
+  }
+
+  /**
+   * Open invitations sent to the user's email
+   */
+  static async getInvitationsForUser(userId: Types.ObjectId | string): Promise<IProjectInvitation[]> {
+    const user = await User.findById(userId).select('email');
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+
+    return ProjectInvitation.find({ email: user.email, status: 'pending', expiresAt: { $gt: new Date() } })
+      .populate('project', 'title code currency')
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Accept or decline an invitation sent to the user's email
+   */
+  static async respond(
+    invitationId: string,
+    userId: Types.ObjectId | string,
+    accept: boolean
+  ): Promise<IProjectInvitation> {
+    const user = await User.findById(userId).select('email');
+    const invitation = user && Types.ObjectId.isValid(invitationId)
+      ? await ProjectInvitation.findOne({ _id: invitationId, email: user.email, status: 'pending' })
+      : null;
+    if (!user || !invitation) {
+      throw new ErrorResponse('Invitation not found', 404);
+    }
+
+    if (invitation.expiresAt.getTime() <= Date.now()) {
+      invitation.status = 'expired';
+      await invitation.save();
+      throw new ErrorResponse('This invitation has expired. Ask the project owner for a new one.', 410);
+    }
+
+    const project = await Project.findById(invitation.project);
+    if (!project) {
+      invitation.status = 'revoked';
+      await invitation.save();
+      throw new ErrorResponse('Project not found', 404);
+    }
+
+    if (accept && !project.createdBy.equals(user._id)) {
+      await ProjectMember.updateOne(
+        { project: project._id, user: user._id },
+        { $setOnInsert: { role: invitation.role, invitedBy: invitation.invitedBy } },
+        { upsert: true }
+      );
+    }
+
+    invitation.status = accept ? 'accepted' : 'declined';
+    invitation.respondedAt = new Date();
+    await invitation.save();
+
+    DomainEventService.emit('project.invitationAnswered', {
+      invitation,
+      project,
+      userId: user._id,
+      accepted: accept
+    });
+
+    return invitation;
+  }
+
+  static async updateMemberRole(
+    project: IProject,
+    memberUserId: string,
+    role: unknown
+  ): Promise<void> {
+    const memberRole = assertMemberRole(role);
+    const result = Types.ObjectId.isValid(memberUserId)
+      ? await ProjectMember.updateOne({ project: project._id, user: memberUserId }, { $set: { role: memberRole } })
+      : null;
+    if (!result || result.matchedCount === 0) {
+      throw new ErrorResponse('Member not found', 404);
+    }
+  }
+
+  /**
+   * Remove a member, or let a member leave the project
+   */
+  static async removeMember(
+    project: IProject,
+    memberUserId: string,
+    actorId?: Types.ObjectId | string
+  ): Promise<void> {
+    if (project.createdBy.toString() === memberUserId) {
+      throw new ErrorResponse('The owner cannot be removed from the project', 400);
+    }
+
+    const member = Types.ObjectId.isValid(memberUserId)
+      ? await ProjectMember.findOneAndDelete({ project: project._id, user: memberUserId })
+      : null;
+    if (!member) {
+      throw new ErrorResponse('Member not found', 404);
+    }
+
+    DomainEventService.emit('project.memberRemoved', { project, userId: member.user, actorId });
+  }
+}
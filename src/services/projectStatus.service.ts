@@ -0,0 +1,202 @@
+// services/projectStatus.service.ts
+import { Types } from 'mongoose';
+import Project, { IProject, PROJECT_STATUSES, ProjectStatus } from '../models/project.model';
+import { DomainEventService } from './domainEvent.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+export const INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION';
+export const PROJECT_STATUS_LOCKED = 'PROJECT_STATUS_LOCKED';
+
+// Statuses a project can move to from each status. COMPLETED and CANCELLED
+// projects are reopened to ACTIVE or PLANNED; ARCHIVED ones go back to the
+// status they were archived from.
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  PLANNED: ['ACTIVE', 'ON_HOLD', 'CANCELLED'],
+  ACTIVE: ['ON_HOLD', 'COMPLETED', 'CANCELLED'],
+  ON_HOLD: ['ACTIVE', 'CANCELLED'],
+  COMPLETED: ['ACTIVE', 'ARCHIVED'],
+  CANCELLED: ['PLANNED', 'ARCHIVED'],
+  ARCHIVED: ['COMPLETED', 'CANCELLED']
+};
+
+// Statuses a project can be created with
+export const INITIAL_PROJECT_STATUSES: ProjectStatus[] = ['PLANNED', 'ACTIVE'];
+
+// Transactions can only be added, changed or removed while the project is open
+const TRANSACTION_STATUSES: ProjectStatus[] = ['PLANNED', 'ACTIVE', 'ON_HOLD'];
+
+// Cancelling and archiving (and undoing them) need the manage permission
+const MANAGE_STATUSES: ProjectStatus[] = ['CANCELLED', 'ARCHIVED'];
+
+export interface StatusChangeOptions {
+  actorId?: Types.ObjectId | string | null; // null for automatic transitions
+  reason?: string;
+  fields?: Record<string, unknown>; // other project fields to write in the same update
+}
+
+const START_DATE_REASON = 'Start date reached';
+
+export class ProjectStatusService {
+  static isValidStatus(status: unknown): status is ProjectStatus {
+    return PROJECT_STATUSES.includes(status as ProjectStatus);
+  }
+
+  /**
+   * Statuses the project can move to next; leaving ARCHIVED only goes back to the archived status
+   */
+  static getAllowedTransitions(project: Pick<IProject, 'status' | 'statusHistory'>): ProjectStatus[] {
+    if (project.status === 'ARCHIVED') {
+      const archivedFrom = [...(project.statusHistory || [])].reverse().find(change => change.to === 'ARCHIVED')?.from;
+      return archivedFrom ? [archivedFrom] : PROJECT_STATUS_TRANSITIONS.ARCHIVED;
+    }
+    return PROJECT_STATUS_TRANSITIONS[project.status];
+  }
+
+  static requiresManage(from: ProjectStatus, to: ProjectStatus): boolean {
+    return MANAGE_STATUSES.includes(from) || MANAGE_STATUSES.includes(to);
+  }
+
+  /**
+   * Throw 409 unless transactions can be recorded on the project
+   */
+  static assertAcceptsTransactions(project: Pick<IProject, 'status'>): void {
+    if (!TRANSACTION_STATUSES.includes(project.status)) {
+      throw new ErrorResponse(
+        `Transactions cannot be changed on a ${project.status} project. Reopen the project first.`,
+        409,
+        PROJECT_STATUS_LOCKED
+      );
+    }
+  }
+
+  /**
+   * The history entry for a new project
+   */
+  static initialHistory(status: ProjectStatus, actorId?: Types.ObjectId | string | null) {
+    return [{
+      from: null,
+      to: status,
+      changedBy: actorId ? new Types.ObjectId(actorId) : null,
+      changedAt: new Date(),
+      automatic: false
+    }];
+  }
+
+  /**
+   * Check that the project may move to the given status; throws 400 or 409
+   */
+  static assertTransition(project: Pick<IProject, 'status' | 'statusHistory'>, status: unknown): ProjectStatus {
+    if (!this.isValidStatus(status)) {
+      throw new ErrorResponse(`Status must be one of ${PROJECT_STATUSES.join(', ')}`, 400);
+    }
+
+    const allowed = this.getAllowedTransitions(project);
+    if (status !== project.status && !allowed.includes(status)) {
+      throw new ErrorResponse(
+        `A ${project.status} project cannot move to ${status}. Allowed: ${allowed.join(', ')}`,
+        409,
+        INVALID_STATUS_TRANSITION
+      );
+    }
+
+    return status;
+  }
+
+  /**
+   * Move the project to a new status if the workflow allows it, record who, when
+   * and why, and announce the change. `fields` are only written together with the
+   * status, so a concurrent status change leaves the project untouched.
+   */
+  static async changeStatus(
+    project: IProject,
+    status: unknown,
+    options: StatusChangeOptions = {}
+  ): Promise<IProject> {
+    if (this.assertTransition(project, status) === project.status) {
+      return project;
+    }
+
+    const reason = typeof options.reason === 'string' ? options.reason.trim() : '';
+    if (reason.length > 500) {
+      throw new ErrorResponse('Reason cannot be longer than 500 characters', 400);
+    }
+
+    // Only move the project if no one changed its status in the meantime
+    const previousStatus = project.status;
+    const updated = await Project.findOneAndUpdate(
+      { _id: project._id, status: previousStatus },
+      {
+        $set: { ...options.fields, status },
+        $push: {
+          statusHistory: {
+            from: previousStatus,
+            to: status,
+            changedBy: options.actorId || null,
+            changedAt: new Date(),
+            reason: reason || undefined,
+            automatic: options.actorId === null
+          }
+        }
+      },
+      { new: true, runValidators: true }
+    );
+    if (!updated) {
+      throw new ErrorResponse('The project status was changed by someone else. Reload and try again.', 409);
+    }
+
+    DomainEventService.emit('project.statusChanged', {
+      project: updated,
+      previousStatus,
+      reason: reason || undefined,
+      actorId: options.actorId || undefined
+    });
+
+    return updated;
+  }
+
+  /**
+   * Status history, newest first, with the users who made the changes
+   */
+  static async getHistory(projectId: Types.ObjectId | string) {
+    const project = await Project.findById(projectId)
+      .select('statusHistory')
+      .populate('statusHistory.changedBy', 'name email')
+      .lean();
+    return [...(project?.statusHistory || [])].reverse();
+  }
+
+  /**
+   * Activate a PLANNED project whose start date has been reached
+   */
+  static async applyStartDate(project: IProject, now: Date = new Date()): Promise<IProject> {
+    if (project.status !== 'PLANNED' || !project.startDate || project.startDate > now) {
+      return project;
+    }
+    return this.changeStatus(project, 'ACTIVE', { actorId: null, reason: START_DATE_REASON });
+  }
+
+  /**
+   * Run the automatic transitions that are due: PLANNED projects become ACTIVE
+   * on their start date. Returns how many projects changed.
+   */
+  static async applyScheduledTransitions(now: Date = new Date()): Promise<number> {
+    const due = await Project.find({
+      status: 'PLANNED',
+      startDate: { $ne: null, $lte: now },
+      deletedAt: null
+    });
+
+    let changed = 0;
+    for (const project of due) {
+      try {
+        await this.applyStartDate(project, now);
+        changed++;
+      } catch (error) {
+        logger.error(`Automatic status change of project ${project._id} failed:`, error);
+      }
+    }
+
+    return changed;
+  }
+}
@@ -0,0 +1,166 @@
+// services/projectTrash.service.ts
+import { Types } from 'mongoose';
+import Project, { IProject } from '../models/project.model';
+import Party from '../models/party.model';
+import Transaction from '../models/transaction.model';
+import Category from '../models/category.model';
+import ProjectMember from '../models/project.member.model';
+import ProjectInvitation from '../models/project.invitation.model';
+import WorkspaceMember from '../models/workspace.member.model';
+import { DomainEventService } from './domainEvent.service';
+import { config } from '../config/config';
+import { deleteFileFromCloudinary, getCloudinaryAsset } from '../utils/uploadUtils';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+export interface TrashedProjectSummary {
+  _id: Types.ObjectId;
+  title: string;
+  code: string;
+  workspace: Types.ObjectId;
+  deletedAt: Date;
+  deletedBy: { _id: Types.ObjectId; name: string; email: string } | null;
+  purgeAt: Date;
+  parties: number;
+  transactions: number;
+}
+
+export type ProjectPurgeSummary = Record<
+  'parties' | 'transactions' | 'categories' | 'members' | 'invitations' | 'receipts',
+  number
+>;
+
+export class ProjectTrashService {
+  /**
+   * When a project deleted at the given time is purged for good
+   */
+  static getPurgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + config.PROJECT_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Move a project to the trash. Its parties and transactions stay untouched but
+   * are hidden with it until it is restored or purged.
+   */
+  static async trash(project: IProject, actorId?: Types.ObjectId | string): Promise<IProject> {
+    if (project.deletedAt) {
+      throw new ErrorResponse('Project is already in the trash', 409);
+    }
+
+    project.deletedAt = new Date();
+    project.deletedBy = actorId ? new Types.ObjectId(actorId) : null;
+    await project.save();
+
+    DomainEventService.emit('project.trashed', { project, actorId });
+
+    return project;
+  }
+
+  static async restore(project: IProject, actorId?: Types.ObjectId | string): Promise<IProject> {
+    if (!project.deletedAt) {
+      throw new ErrorResponse('Project is not in the trash', 400);
+    }
+
+    project.deletedAt = null;
+    project.deletedBy = null;
+    await project.save();
+
+    DomainEventService.emit('project.restored', { project, actorId });
+
+    return project;
+  }
+
+  /**
+   * Trashed projects the user may restore: the ones they own and the ones in
+   * workspaces they own or administer. Newest first.
+   */
+  static async listForUser(userId: Types.ObjectId | string): Promise<TrashedProjectSummary[]> {
+    const adminWorkspaceIds = await WorkspaceMember.find({ user: userId, role: { $in: ['owner', 'admin'] } })
+      .distinct('workspace');
+
+    const projects = await Project.find({
+      deletedAt: { $ne: null },
+      $or: [{ createdBy: new Types.ObjectId(userId) }, { workspace: { $in: adminWorkspaceIds } }]
+    })
+      .select('title code workspace deletedAt deletedBy')
+      .populate<{ deletedBy: TrashedProjectSummary['deletedBy'] }>('deletedBy', 'name email')
+      .sort({ deletedAt: -1 })
+      .lean();
+
+    return Promise.all(projects.map(async (project) => {
+      const [parties, transactions] = await Promise.all([
+        Party.countDocuments({ project: project._id }),
+        Transaction.countDocuments({ project: project._id, isDeleted: false })
+      ]);
+
+      return {
+        _id: project._id as Types.ObjectId,
+        title: project.title,
+        code: project.code,
+        workspace: project.workspace as Types.ObjectId,
+        deletedAt: project.deletedAt as Date,
+        deletedBy: project.deletedBy || null,
+        purgeAt: this.getPurgeDate(project.deletedAt as Date),
+        parties,
+        transactions
+      };
+    }));
+  }
+
+  /**
+   * Delete a project for good with its parties, transactions, categories, members,
+   * invitations and the receipt files of its transactions
+   */
+  static async purge(projectId: Types.ObjectId | string): Promise<ProjectPurgeSummary> {
+    const fileUrls: string[] = await Transaction.find({ project: projectId, fileUrl: { $nin: [null, ''] } })
+      .distinct('fileUrl');
+
+    const [transactions, parties, categories, members, invitations] = await Promise.all([
+      Transaction.deleteMany({ project: projectId }),
+      Party.deleteMany({ project: projectId }),
+      Category.deleteMany({ project: projectId }),
+      ProjectMember.deleteMany({ project: projectId }),
+      ProjectInvitation.deleteMany({ project: projectId })
+    ]);
+    await Project.deleteOne({ _id: projectId });
+
+    // The records are gone either way; a file that cannot be removed is only logged
+    let receipts = 0;
+    for (const url of fileUrls) {
+      const asset = getCloudinaryAsset(url);
+      if (!asset) {
+        continue;
+      }
+      try {
+        await deleteFileFromCloudinary(asset.publicId, asset.resourceType);
+        receipts++;
+      } catch (error) {
+        logger.error(`Failed to delete receipt ${asset.publicId} of project ${projectId}:`, error);
+      }
+    }
+
+    return {
+      parties: parties.deletedCount,
+      transactions: transactions.deletedCount,
+      categories: categories.deletedCount,
+      members: members.deletedCount,
+      invitations: invitations.deletedCount,
+      receipts
+    };
+  }
+
+  /**
+   * Purge the projects whose trash retention period has ended; returns how many were purged
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.PROJECT_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const projects = await Project.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('_id code');
+
+    for (const project of projects) {
+      const summary = await this.purge(project._id as Types.ObjectId);
+      logger.info(`Purged project ${project.code} [${project._id}] after its trash retention period`, summary);
+    }
+
+    return projects.length;
+  }
+}
@@ -0,0 +1,166 @@
+// services/push.service.ts
+import fs from 'fs';
+import admin from 'firebase-admin';
+import DeviceToken from '../models/device.token.model';
+import Notification, { INotification } from '../models/notification.model';
+import { getFirebaseApp } from '../config/firebase';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export interface PushSendResult {
+  successCount: number;
+  failureCount: number;
+  invalidTokens: string[];
+}
+
+export interface PushSender {
+  send(tokens: string[], message: PushMessage): Promise<PushSendResult>;
+}
+
+// FCM error codes meaning the token will never work again
+const INVALID_TOKEN_CODES = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token'
+];
+
+// FCM accepts at most 500 tokens per multicast request
+const FCM_BATCH_SIZE = 500;
+
+/**
+ * Sends pushes through Firebase Cloud Messaging
+ */
+export class FcmPushSender implements PushSender {
+  async send(tokens: string[], message: PushMessage): Promise<PushSendResult> {
+    const messaging = admin.messaging(getFirebaseApp());
+    const result: PushSendResult = { successCount: 0, failureCount: 0, invalidTokens: [] };
+
+    for (let i = 0; i < tokens.length; i += FCM_BATCH_SIZE) {
+      const batch = tokens.slice(i, i + FCM_BATCH_SIZE);
+      const response = await messaging.sendEachForMulticast({
+        tokens: batch,
+        notification: { title: message.title, body: message.body },
+        data: message.data
+      });
+
+      result.successCount += response.successCount;
+      result.failureCount += response.failureCount;
+
+      response.responses.forEach((res, index) => {
+        if (!res.success && res.error && INVALID_TOKEN_CODES.includes(res.error.code)) {
+          result.invalidTokens.push(batch[index]);
+        }
+      });
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Used when pushes are disabled or FCM is not configured; nothing is delivered,
+ * so notifications are not marked as pushed
+ */
+export class NoopPushSender implements PushSender {
+  async send(tokens: string[]): Promise<PushSendResult> {
+    return { successCount: 0, failureCount: tokens.length, invalidTokens: [] };
+  }
+}
+
+/**
+ * Recording sender for tests, installed with PushService.setSender; nothing leaves the process
+ */
+export class LocalPushSender implements PushSender {
+  sent: { tokens: string[]; message: PushMessage }[] = [];
+  invalidTokens = new Set<string>();
+
+  async send(tokens: string[], message: PushMessage): Promise<PushSendResult> {
+    const invalid = tokens.filter(token => this.invalidTokens.has(token));
+    const delivered = tokens.filter(token => !this.invalidTokens.has(token));
+
+    this.sent.push({ tokens: delivered, message });
+
+    return {
+      successCount: delivered.length,
+      failureCount: invalid.length,
+      invalidTokens: invalid
+    };
+  }
+
+  reset(): void {
+    this.sent = [];
+    this.invalidTokens.clear();
+  }
+}
+
+export class PushService {
+  private static sender: PushSender | null = null;
+
+  /**
+   * Replace the active sender (e.g. with a LocalPushSender in tests)
+   */
+  static setSender(sender: PushSender): void {
+    this.sender = sender;
+  }
+
+  static getSender(): PushSender {
+    if (!this.sender) {
+      if (config.PUSH_PROVIDER === 'none') {
+        this.sender = new NoopPushSender();
+      } else if (!fs.existsSync(config.FIREBASE_SERVICE_ACCOUNT_PATH)) {
+        logger.warn(`Push notifications disabled: Firebase service account not found at ${config.FIREBASE_SERVICE_ACCOUNT_PATH}`);
+        this.sender = new NoopPushSender();
+      } else {
+        this.sender = new FcmPushSender();
+      }
+    }
+    return this.sender;
+  }
+
+  /**
+   * Send a notification to all active device tokens of its recipient
+   */
+  static async dispatchNotification(notification: INotification): Promise<PushSendResult | null> {
+    const devices = await DeviceToken.find({
+      user: notification.recipient,
+      isActive: true
+    }).select('token');
+
+    if (devices.length === 0) {
+      return null;
+    }
+
+    const result = await this.getSender().send(
+      devices.map(device => device.token),
+      {
+        title: notification.title,
+        body: notification.message,
+        data: {
+          notificationId: notification._id.toString(),
+          entityType: notification.entityType,
+          entityId: notification.entityId ? notification.entityId.toString() : '',
+          type: notification.type
+        }
+      }
+    );
+
+    if (result.successCount > 0) {
+      await Notification.updateOne({ _id: notification._id }, { $set: { pushSent: true } });
+    }
+
+    if (result.invalidTokens.length > 0) {
+      await DeviceToken.updateMany(
+        { token: { $in: result.invalidTokens } },
+        { $set: { isActive: false } }
+      );
+      logger.info(`Deactivated ${result.invalidTokens.length} invalid device token(s)`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,158 @@
+// services/reconciliation.service.ts
+import { Types } from 'mongoose';
+import Project from '../models/project.model';
+import Transaction from '../models/transaction.model';
+
+export interface ProjectTotals {
+  totalIncome: number;
+  totalExpense: number;
+  balance: number;
+}
+
+export interface ProjectDiscrepancy {
+  projectId: Types.ObjectId;
+  code: string;
+  title: string;
+  stored: ProjectTotals;
+  actual: ProjectTotals;
+  difference: ProjectTotals;
+  fixed: boolean;
+}
+
+export interface ReconciliationOptions {
+  projectIds?: (Types.ObjectId | string)[];
+  fix?: boolean;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  checkedProjects: number;
+  discrepancies: ProjectDiscrepancy[];
+  fixedProjects: number;
+  skippedProjects: number; // changed concurrently while fixing
+}
+
+// Totals within this distance are treated as equal (floating point noise)
+const TOLERANCE = 0.005;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class ReconciliationService {
+  /**
+   * Recompute project totals from non-deleted transactions
+   */
+  static async computeActualTotals(
+    projectIds: Types.ObjectId[]
+  ): Promise<Map<string, ProjectTotals>> {
+    const sums = await Transaction.aggregate([
+      { $match: { project: { $in: projectIds }, isDeleted: false } },
+      {
+        $group: {
+          _id: { project: '$project', type: '$type' },
+          // Totals are kept in project currency; legacy rows have no convertedAmount
+          totalAmount: { $sum: { $ifNull: ['$convertedAmount', '$amount'] } }
+        }
+      }
+    ]);
+
+    const totals = new Map<string, ProjectTotals>();
+
+    projectIds.forEach((id) => {
+      totals.set(id.toString(), { totalIncome: 0, totalExpense: 0, balance: 0 });
+    });
+
+    sums.forEach((sum) => {
+      const entry = totals.get(sum._id.project.toString());
+      if (!entry) return;
+
+      if (sum._id.type === 'income') {
+        entry.totalIncome = round(entry.totalIncome + sum.totalAmount);
+      } else if (sum._id.type === 'expense') {
+        entry.totalExpense = round(entry.totalExpense + sum.totalAmount);
+      }
+      entry.balance = round(entry.totalIncome - entry.totalExpense);
+    });
+
+    return totals;
+  }
+
+  /**
+   * Compare stored project totals with the transaction ledger; optionally fix them
+   */
+  static async reconcileProjects(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    const { projectIds, fix = false } = options;
+
+    const query: any = {};
+    if (projectIds && projectIds.length > 0) {
+      query._id = { $in: projectIds.map(id => new Types.ObjectId(id)) };
+    }
+
+    const projects = await Project.find(query)
+      .select('title code totalIncome totalExpense balance')
+      .lean();
+
+    const actualTotals = await this.computeActualTotals(
+      projects.map(project => project._id as Types.ObjectId)
+    );
+
+    const report: ReconciliationReport = {
+      dryRun: !fix,
+      checkedProjects: projects.length,
+      discrepancies: [],
+      fixedProjects: 0,
+      skippedProjects: 0
+    };
+
+    for (const project of projects) {
+      const stored: ProjectTotals = {
+        totalIncome: project.totalIncome || 0,
+        totalExpense: project.totalExpense || 0,
+        balance: project.balance || 0
+      };
+      const actual = actualTotals.get(project._id.toString())!;
+
+      const difference: ProjectTotals = {
+        totalIncome: round(stored.totalIncome - actual.totalIncome),
+        totalExpense: round(stored.totalExpense - actual.totalExpense),
+        balance: round(stored.balance - actual.balance)
+      };
+
+      const drifted = Object.values(difference).some(value => Math.abs(value) > TOLERANCE);
+      if (!drifted) continue;
+
+      const discrepancy: ProjectDiscrepancy = {
+        projectId: project._id as Types.ObjectId,
+        code: project.code,
+        title: project.title,
+        stored,
+        actual,
+        difference,
+        fixed: false
+      };
+
+      if (fix) {
+        // Only overwrite if totals were not changed by a transaction in the meantime
+        const result = await Project.updateOne(
+          {
+            _id: project._id,
+            totalIncome: project.totalIncome,
+            totalExpense: project.totalExpense,
+            balance: project.balance
+          },
+          { $set: actual }
+        );
+
+        discrepancy.fixed = result.modifiedCount > 0;
+        if (discrepancy.fixed) {
+          report.fixedProjects++;
+        } else {
+          report.skippedProjects++;
+        }
+      }
+
+      report.discrepancies.push(discrepancy);
+    }
+
+    return report;
+  }
+}
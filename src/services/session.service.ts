@@ -0,0 +1,210 @@
+// services/session.service.ts
+import { Types } from 'mongoose';
+import Session, { ISession, SessionRevokeReason } from '../models/session.model';
+import RefreshToken from '../models/refresh.token.model';
+import DeviceToken, { IDeviceToken } from '../models/device.token.model';
+
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceName?: string;
+  platform?: ISession['platform'];
+  deviceToken?: string; // push token of the device, if the client sends one
+}
+
+export const SESSION_PLATFORMS = ['ios', 'android', 'web', 'unknown'];
+
+// lastSeenAt is written at most once per interval to keep authenticated requests cheap
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export class SessionService {
+  /**
+   * Record a new login session, linking the device's push token when given
+   */
+  static async createSession(
+    userId: Types.ObjectId | string,
+    sessionId: string,
+    client: ClientInfo,
+    expiresAt: Date
+  ): Promise<ISession> {
+    const session = await Session.create({
+      user: userId,
+      sessionId,
+      deviceName: client.deviceName,
+      platform: client.platform && SESSION_PLATFORMS.includes(client.platform) ? client.platform : 'unknown',
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt
+    });
+
+    if (client.deviceToken) {
+      await this.linkDeviceToken(userId, sessionId, client.deviceToken, session.platform);
+    }
+
+    return session;
+  }
+
+  /**
+   * Extend a session after its refresh token was rotated
+   */
+  static async extendSession(sessionId: string, client: ClientInfo, expiresAt: Date): Promise<void> {
+    await Session.updateOne(
+      { sessionId, revokedAt: null },
+      {
+        $set: {
+          expiresAt,
+          lastSeenAt: new Date(),
+          ...(client.ipAddress ? { ipAddress: client.ipAddress } : {}),
+          ...(client.userAgent ? { userAgent: client.userAgent } : {})
+        }
+      }
+    );
+  }
+
+  /**
+   * Register (or move) a push token to the user and attach it to the session
+   */
+  static async linkDeviceToken(
+    userId: Types.ObjectId | string,
+    sessionId: string,
+    token: string,
+    platform: ISession['platform'] = 'unknown'
+  ): Promise<void> {
+    const deviceToken = await DeviceToken.findOneAndUpdate(
+      { token: token.trim() },
+      { $set: { user: userId, platform, isActive: true, lastUsed: new Date() } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    await Session.updateOne({ sessionId, user: userId }, { $set: { deviceToken: deviceToken._id } });
+  }
+
+  /**
+   * The session when it exists, belongs to the user and is neither revoked nor expired,
+   * otherwise null. Also refreshes lastSeenAt (throttled).
+   */
+  static async validateSession(
+    userId: Types.ObjectId | string,
+    sessionId: string,
+    ipAddress?: string
+  ): Promise<Pick<ISession, 'workspace'> | null> {
+    const now = new Date();
+    const session = await Session.findOne({
+      sessionId,
+      user: userId,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    })
+      .select('lastSeenAt workspace')
+      .lean();
+
+    if (!session) {
+      return null;
+    }
+
+    if (now.getTime() - new Date(session.lastSeenAt).getTime() > LAST_SEEN_INTERVAL_MS) {
+      Session.updateOne(
+        { _id: session._id },
+        { $set: { lastSeenAt: now, ...(ipAddress ? { ipAddress } : {}) } }
+      ).catch(() => {
+        // lastSeenAt is informational only
+      });
+    }
+
+    return session;
+  }
+
+  /**
+   * Set the workspace the session works in (the workspace switcher)
+   */
+  static async setWorkspace(
+    userId: Types.ObjectId | string,
+    sessionId: string,
+    workspaceId: Types.ObjectId | string
+  ): Promise<boolean> {
+    const result = await Session.updateOne(
+      { sessionId, user: userId, revokedAt: null },
+      { $set: { workspace: workspaceId } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  static async getActiveSessions(userId: Types.ObjectId | string) {
+    return Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .populate<{ deviceToken: Pick<IDeviceToken, 'isActive'> | null }>('deviceToken', 'isActive')
+      .sort({ lastSeenAt: -1 })
+      .lean();
+  }
+
+  /**
+   * Revoke sessions matching the filter together with their refresh tokens;
+   * push tokens linked to them stop receiving notifications
+   */
+  private static async revokeWhere(filter: any, reason: SessionRevokeReason): Promise<number> {
+    const sessions = await Session.find({ ...filter, revokedAt: null }).select('sessionId deviceToken').lean();
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const sessionIds = sessions.map(session => session.sessionId);
+    const deviceTokenIds = sessions
+      .map(session => session.deviceToken)
+      .filter((id): id is Types.ObjectId => !!id);
+    const revokedAt = new Date();
+
+    await Promise.all([
+      Session.updateMany(
+        { sessionId: { $in: sessionIds }, revokedAt: null },
+        { $set: { revokedAt, revokedReason: reason } }
+      ),
+      RefreshToken.updateMany(
+        { family: { $in: sessionIds }, revokedAt: null },
+        { $set: { revokedAt, revokedReason: reason } }
+      ),
+      deviceTokenIds.length > 0
+        ? DeviceToken.updateMany({ _id: { $in: deviceTokenIds } }, { $set: { isActive: false } })
+        : Promise.resolve()
+    ]);
+
+    return sessions.length;
+  }
+
+  /**
+   * Revoke one session (optionally only if it belongs to the given user)
+   */
+  static async revokeSession(
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: Types.ObjectId | string
+  ): Promise<boolean> {
+    const revoked = await this.revokeWhere(
+      userId ? { sessionId, user: userId } : { sessionId },
+      reason
+    );
+
+    // A reused token marks the whole family, including already rotated tokens
+    if (reason === 'reuse_detected') {
+      await RefreshToken.updateMany({ family: sessionId }, { $set: { revokedReason: reason } });
+    }
+
+    return revoked > 0;
+  }
+
+  /**
+   * Revoke all sessions of a user, optionally keeping one (the current session)
+   */
+  static async revokeAllForUser(
+    userId: Types.ObjectId | string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const filter: any = { user: userId };
+    if (exceptSessionId) {
+      filter.sessionId = { $ne: exceptSessionId };
+    }
+    return this.revokeWhere(filter, reason);
+  }
+}
@@ -0,0 +1,142 @@
+// services/token.service.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import RefreshToken from '../models/refresh.token.model';
+import User from '../models/user.model';
+import { generateToken, generateRefreshToken, verifyRefreshToken, hashToken } from '../utils/authToken';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+import { SessionService, ClientInfo } from './session.service';
+import { UserStatusService } from './userStatus.service';
+
+export interface AuthTokens {
+  token: string; // access token
+  refreshToken: string;
+  sessionId: string;
+  expiresAt: Date; // access token expiry
+  refreshExpiresAt: Date;
+}
+
+const getExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp: number };
+  return new Date(decoded.exp * 1000);
+};
+
+export class TokenService {
+  /**
+   * Start a new session for a login and issue its first token pair
+   */
+  static async issueTokens(
+    user: { _id: Types.ObjectId | string; role: string },
+    client: ClientInfo = {}
+  ): Promise<AuthTokens> {
+    const tokens = await this.createTokenPair(user, client, crypto.randomUUID());
+    await SessionService.createSession(user._id, tokens.sessionId, client, tokens.refreshExpiresAt);
+    return tokens;
+  }
+
+  /**
+   * Sign an access/refresh token pair for a session and store the refresh token hash
+   */
+  private static async createTokenPair(
+    user: { _id: Types.ObjectId | string; role: string },
+    client: ClientInfo,
+    sessionId: string
+  ): Promise<AuthTokens> {
+    const token = generateToken({ id: user._id, role: user.role, sid: sessionId });
+    const refreshToken = generateRefreshToken({ id: user._id, sid: sessionId });
+    const refreshExpiresAt = getExpiry(refreshToken);
+
+    await RefreshToken.create({
+      user: user._id,
+      tokenHash: hashToken(refreshToken),
+      family: sessionId,
+      expiresAt: refreshExpiresAt,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent
+    });
+
+    return {
+      token,
+      refreshToken,
+      sessionId,
+      expiresAt: getExpiry(token),
+      refreshExpiresAt
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Presenting an already rotated or
+   * revoked token revokes the whole family (the token was likely stolen).
+   */
+  static async rotateRefreshToken(
+    refreshToken: string,
+    client: ClientInfo = {}
+  ): Promise<AuthTokens> {
+    let payload;
+    try {
+      payload = await verifyRefreshToken(refreshToken);
+    } catch (error) {
+      throw new ErrorResponse('Invalid or expired refresh token', 401);
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    const stored = await RefreshToken.findOne({ tokenHash });
+
+    if (!stored || stored.family !== payload.sid) {
+      throw new ErrorResponse('Invalid or expired refresh token', 401);
+    }
+
+    // Claim the token atomically so two concurrent refreshes cannot both succeed
+    const claimed = await RefreshToken.findOneAndUpdate(
+      { _id: stored._id, revokedAt: null, expiresAt: { $gt: new Date() } },
+      { $set: { revokedAt: new Date(), revokedReason: 'rotated' } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      if (stored.revokedAt) {
+        await SessionService.revokeSession(stored.family, 'reuse_detected');
+        logger.warn(`Refresh token reuse detected for user ${stored.user}, session ${stored.family} revoked`);
+      }
+      throw new ErrorResponse('Invalid or expired refresh token', 401);
+    }
+
+    const user = await User.findById(stored.user).select('role isActive suspension');
+    if (!user) {
+      await SessionService.revokeSession(stored.family, 'logout');
+      throw new ErrorResponse('User not found', 401);
+    }
+
+    const inactive = await UserStatusService.checkAccess(user);
+    if (inactive) {
+      await SessionService.revokeSession(stored.family, 'account_disabled');
+      throw inactive;
+    }
+
+    const tokens = await this.createTokenPair(user, client, stored.family);
+    await Promise.all([
+      RefreshToken.updateOne(
+        { _id: stored._id },
+        { $set: { replacedByHash: hashToken(tokens.refreshToken) } }
+      ),
+      SessionService.extendSession(stored.family, client, tokens.refreshExpiresAt)
+    ]);
+
+    return tokens;
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to
+   */
+  static async revokeByRefreshToken(refreshToken: string): Promise<{ userId: Types.ObjectId; sessionId: string } | null> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+    if (!stored) {
+      return null;
+    }
+
+    await SessionService.revokeSession(stored.family, 'logout');
+    return { userId: stored.user, sessionId: stored.family };
+  }
+}
@@ -0,0 +1,204 @@
+// services/twoFactor.service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Auth, { IAuth } from '../models/auth.model';
+import { config } from '../config/config';
+import { hashOTP } from '../utils/createOTP';
+import { ErrorResponse } from '../utils/errorResponse';
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  encryptSecret,
+  decryptSecret
+} from '../utils/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Recovery codes are compared without dashes, spaces or case
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+export class TwoFactorService {
+  /**
+   * The Auth record 2FA is attached to: the one with 2FA enabled, otherwise the
+   * email/password one, otherwise the oldest linked identity
+   */
+  static async findAuthForUser(userId: Types.ObjectId | string): Promise<IAuth | null> {
+    return (await Auth.findOne({ user: userId, 'twoFactor.enabled': true }))
+      || (await Auth.findOne({ user: userId, provider: 'email' }))
+      || Auth.findOne({ user: userId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Move 2FA settings to another identity of the same user, e.g. before the
+   * identity holding them is unlinked
+   */
+  static async transfer(fromAuthId: Types.ObjectId | string, toAuthId: Types.ObjectId | string): Promise<void> {
+    const from = await Auth.findById(fromAuthId)
+      .select('+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes')
+      .lean();
+    if (!from?.twoFactor) {
+      return;
+    }
+
+    await Auth.updateOne({ _id: toAuthId }, { $set: { twoFactor: from.twoFactor } });
+    await this.disable(fromAuthId);
+  }
+
+  /**
+   * Start enrollment: store a pending secret and return it with an otpauth:// URI
+   */
+  static async startEnrollment(auth: IAuth, accountName: string): Promise<{ secret: string; otpauthUri: string }> {
+    if (auth.twoFactor?.enabled) {
+      throw new ErrorResponse('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await Auth.updateOne(
+      { _id: auth._id },
+      { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } }
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, accountName, config.TWO_FACTOR_ISSUER)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the app; returns the one-time recovery codes
+   */
+  static async confirmEnrollment(authId: Types.ObjectId | string, code: string): Promise<string[]> {
+    const auth = await Auth.findById(authId).select('+twoFactor.pendingSecret');
+    if (!auth?.twoFactor?.pendingSecret) {
+      throw new ErrorResponse('Start two-factor setup first', 400);
+    }
+    if (auth.twoFactor.enabled) {
+      throw new ErrorResponse('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = decryptSecret(auth.twoFactor.pendingSecret);
+    const step = verifyTotp(code, secret);
+    if (step === null) {
+      throw new ErrorResponse('Invalid authentication code', 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await Auth.updateOne(
+      { _id: auth._id },
+      {
+        $set: {
+          'twoFactor.enabled': true,
+          'twoFactor.secret': auth.twoFactor.pendingSecret,
+          'twoFactor.recoveryCodes': recoveryCodes.map(recoveryCode => hashOTP(normalizeRecoveryCode(recoveryCode))),
+          'twoFactor.lastUsedStep': step,
+          'twoFactor.enabledAt': new Date()
+        },
+        $unset: { 'twoFactor.pendingSecret': '' }
+      }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code. TOTP codes are accepted once per time step
+   * and recovery codes once in total.
+   */
+  static async verify(
+    authId: Types.ObjectId | string,
+    credentials: TwoFactorCredentials
+  ): Promise<{ method: 'totp' | 'recovery_code'; remainingRecoveryCodes?: number } | null> {
+    const auth = await Auth.findById(authId).select('+twoFactor.secret +twoFactor.recoveryCodes');
+    if (!auth?.twoFactor?.enabled || !auth.twoFactor.secret) {
+      return null;
+    }
+
+    if (credentials.code) {
+      const step = verifyTotp(credentials.code, decryptSecret(auth.twoFactor.secret));
+      if (step === null) {
+        return null;
+      }
+
+      const result = await Auth.updateOne(
+        {
+          _id: auth._id,
+          $or: [
+            { 'twoFactor.lastUsedStep': { $exists: false } },
+            { 'twoFactor.lastUsedStep': { $lt: step } }
+          ]
+        },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+      );
+      return result.modifiedCount > 0 ? { method: 'totp' } : null;
+    }
+
+    if (credentials.recoveryCode) {
+      const hash = hashOTP(normalizeRecoveryCode(credentials.recoveryCode));
+      const result = await Auth.updateOne(
+        { _id: auth._id, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } }
+      );
+      if (result.modifiedCount === 0) {
+        return null;
+      }
+      return {
+        method: 'recovery_code',
+        remainingRecoveryCodes: auth.twoFactor.recoveryCodes.length - 1
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all recovery codes; returns the new plain codes
+   */
+  static async regenerateRecoveryCodes(authId: Types.ObjectId | string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await Auth.updateOne(
+      { _id: authId, 'twoFactor.enabled': true },
+      { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(code => hashOTP(normalizeRecoveryCode(code))) } }
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off and forget the secret and recovery codes
+   */
+  static async disable(authId: Types.ObjectId | string): Promise<void> {
+    await Auth.updateOne(
+      { _id: authId },
+      {
+        $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+        $unset: {
+          'twoFactor.secret': '',
+          'twoFactor.pendingSecret': '',
+          'twoFactor.lastUsedStep': '',
+          'twoFactor.enabledAt': ''
+        }
+      }
+    );
+  }
+
+  static async getStatus(authId: Types.ObjectId | string) {
+    const auth = await Auth.findById(authId).select('+twoFactor.recoveryCodes +twoFactor.pendingSecret');
+    return {
+      enabled: !!auth?.twoFactor?.enabled,
+      enabledAt: auth?.twoFactor?.enabledAt,
+      pendingSetup: !!auth?.twoFactor?.pendingSecret && !auth?.twoFactor?.enabled,
+      remainingRecoveryCodes: auth?.twoFactor?.enabled ? auth.twoFactor.recoveryCodes.length : 0
+    };
+  }
+}
@@ -0,0 +1,104 @@
+// services/userStatus.service.ts
+import { Types } from 'mongoose';
+import User, { IUser, IUserDocument } from '../models/user.model';
+import { SessionService } from './session.service';
+import { DomainEventService } from './domainEvent.service';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+// Codes sent as `code` so clients can tell a disabled account from bad credentials
+export const ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED';
+export const ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED';
+
+export interface UserStatusChange {
+  isActive: boolean;
+  reason?: string;
+  until?: Date | string | null; // end of a suspension; empty means until reactivated
+}
+
+type StatusSubject = Pick<IUser, 'isActive' | 'suspension'> & { _id: Types.ObjectId };
+
+export class UserStatusService {
+  /**
+   * The error to answer a deactivated or suspended user with, or null when they
+   * may use the app. Suspensions that have ended are lifted here.
+   */
+  static async checkAccess(user: StatusSubject): Promise<ErrorResponse | null> {
+    if (user.isActive) {
+      return null;
+    }
+
+    const suspension = user.suspension;
+    if (suspension?.until && suspension.until.getTime() <= Date.now()) {
+      const lifted = await User.updateOne(
+        { _id: user._id, isActive: false, 'suspension.until': suspension.until },
+        { $set: { isActive: true, suspension: null } }
+      );
+      if (lifted.modifiedCount > 0) {
+        logger.info(`Suspension of user ${user._id} ended, account reactivated`);
+        DomainEventService.emit('user.statusChanged', { userId: user._id, isActive: true });
+      }
+      return null;
+    }
+
+    const reason = suspension?.reason ? ` Reason: ${suspension.reason}` : '';
+    if (suspension?.until) {
+      return new ErrorResponse(
+        `Your account is suspended until ${suspension.until.toISOString()}.${reason}`,
+        403,
+        ACCOUNT_SUSPENDED
+      );
+    }
+    return new ErrorResponse(`Your account has been deactivated.${reason}`, 403, ACCOUNT_DEACTIVATED);
+  }
+
+  /**
+   * Activate or deactivate a user. Deactivation signs the user out everywhere
+   * at once; the user is notified either way.
+   */
+  static async setStatus(
+    userId: Types.ObjectId | string,
+    change: UserStatusChange,
+    actorId?: Types.ObjectId | string
+  ): Promise<IUserDocument> {
+    let until: Date | null = null;
+    if (!change.isActive && change.until) {
+      until = new Date(change.until);
+      if (isNaN(until.getTime())) {
+        throw new ErrorResponse('Invalid suspension end date', 400);
+      }
+      if (until.getTime() <= Date.now()) {
+        throw new ErrorResponse('Suspension end date must be in the future', 400);
+      }
+    }
+
+    const reason = typeof change.reason === 'string' && change.reason.trim() ? change.reason.trim() : undefined;
+    const suspension = change.isActive
+      ? null
+      : { reason, until, suspendedAt: new Date(), suspendedBy: actorId ? new Types.ObjectId(actorId.toString()) : undefined };
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { isActive: change.isActive, suspension } },
+      { new: true, runValidators: true }
+    ).select('-__v');
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+
+    if (!change.isActive) {
+      const revoked = await SessionService.revokeAllForUser(userId, 'account_disabled');
+      logger.info(`User ${userId} deactivated, ${revoked} session(s) revoked`);
+    }
+
+    DomainEventService.emit('user.statusChanged', {
+      userId: user._id,
+      isActive: change.isActive,
+      reason,
+      until,
+      actorId
+    });
+
+    return user;
+  }
+}
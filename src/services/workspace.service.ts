@@ -0,0 +1,504 @@
+// services/workspace.service.ts
+import { Types } from 'mongoose';
+import Workspace, { IWorkspace } from '../models/workspace.model';
+import WorkspaceMember, { WORKSPACE_ROLES, WorkspaceRole } from '../models/workspace.member.model';
+import WorkspaceInvitation, { IWorkspaceInvitation, WORKSPACE_INVITATION_ROLES } from '../models/workspace.invitation.model';
+import Project from '../models/project.model';
+import User from '../models/user.model';
+import { SessionService } from './session.service';
+import { DomainEventService } from './domainEvent.service';
+import { config } from '../config/config';
+import { sendEmail } from '../utils/sendEmail';
+import { ErrorResponse } from '../utils/errorResponse';
+import { logger } from '../utils/logger';
+
+// The signed-in user as set on req.user by verifyTokenMiddleware
+export interface WorkspaceActor {
+  id: Types.ObjectId | string;
+  sessionId?: string;
+  workspaceId?: Types.ObjectId | string | null;
+}
+
+export type WorkspacePermission = 'read' | 'manage' | 'own';
+
+// read: view the workspace and its projects; manage: rename it and manage its
+// members; own: delete it and hand over ownership
+export const WORKSPACE_ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: ['read', 'manage', 'own'],
+  admin: ['read', 'manage'],
+  member: ['read']
+};
+
+export interface WorkspaceAccess {
+  workspace: IWorkspace;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceSummary {
+  _id: Types.ObjectId;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+  current: boolean;
+  joinedAt: Date;
+}
+
+export interface WorkspaceMemberSummary {
+  user: { _id: Types.ObjectId; name: string; email: string; profileImage?: string };
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface WorkspaceReleaseSummary {
+  deletedWorkspaces: number;
+  transferredProjects: number;
+}
+
+const PERMISSION_VERBS: Record<WorkspacePermission, string> = {
+  read: 'view',
+  manage: 'manage',
+  own: 'administer'
+};
+
+const assertName = (name: unknown): string => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (trimmed.length < 2 || trimmed.length > 100) {
+    throw new ErrorResponse('Workspace name must be between 2 and 100 characters', 400);
+  }
+  return trimmed;
+};
+
+const EMAIL_REGEX = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
+
+const assertRole = (role: unknown): WorkspaceRole => {
+  if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+    throw new ErrorResponse(`Role must be one of ${WORKSPACE_ROLES.join(', ')}`, 400);
+  }
+  return role as WorkspaceRole;
+};
+
+export class WorkspaceService {
+  static can(role: WorkspaceRole | null, permission: WorkspacePermission): boolean {
+    return !!role && WORKSPACE_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  /**
+   * The user's personal workspace, created on first use
+   */
+  static async getPersonalWorkspace(userId: Types.ObjectId | string): Promise<IWorkspace> {
+    const filter = { createdBy: userId, isPersonal: true };
+    let workspace = await Workspace.findOne(filter);
+
+    if (!workspace) {
+      try {
+        workspace = await Workspace.create({ ...filter, name: 'Personal' });
+      } catch (error: any) {
+        // A concurrent request created it first
+        if (error?.code !== 11000) {
+          throw error;
+        }
+        workspace = await Workspace.findOne(filter).orFail();
+      }
+
+      await WorkspaceMember.updateOne(
+        { workspace: workspace._id, user: userId },
+        { $setOnInsert: { role: 'owner' } },
+        { upsert: true }
+      ).catch((error) => {
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      });
+    }
+
+    return workspace;
+  }
+
+  /**
+   * The workspace the session works in. Falls back to the personal workspace when
+   * none was picked or the user is no longer a member of the picked one.
+   */
+  static async getCurrent(actor: WorkspaceActor): Promise<WorkspaceAccess> {
+    if (actor.workspaceId) {
+      const member = await WorkspaceMember.findOne({ workspace: actor.workspaceId, user: actor.id })
+        .populate<{ workspace: IWorkspace }>('workspace');
+      if (member?.workspace) {
+        return { workspace: member.workspace, role: member.role };
+      }
+    }
+
+    return { workspace: await this.getPersonalWorkspace(actor.id), role: 'owner' };
+  }
+
+  /**
+   * Load a workspace the user may act on; throws 400, 404 or 403
+   */
+  static async authorize(
+    workspaceId: Types.ObjectId | string | undefined,
+    actor: WorkspaceActor | undefined,
+    permission: WorkspacePermission
+  ): Promise<WorkspaceAccess> {
+    if (!actor) {
+      throw new ErrorResponse('User not authenticated', 401);
+    }
+    if (!workspaceId || !Types.ObjectId.isValid(workspaceId)) {
+      throw new ErrorResponse('Invalid workspace ID format', 400);
+    }
+
+    // Workspaces the user does not belong to answer 404 like missing ones
+    const member = await WorkspaceMember.findOne({ workspace: workspaceId, user: actor.id })
+      .populate<{ workspace: IWorkspace }>('workspace');
+    if (!member?.workspace) {
+      throw new ErrorResponse('Workspace not found', 404);
+    }
+
+    if (!this.can(member.role, permission)) {
+      throw new ErrorResponse(`You do not have permission to ${PERMISSION_VERBS[permission]} this workspace`, 403);
+    }
+
+    return { workspace: member.workspace, role: member.role };
+  }
+
+  /**
+   * The user's workspaces, personal first, marking the one the session works in
+   */
+  static async listForUser(actor: WorkspaceActor): Promise<WorkspaceSummary[]> {
+    const { workspace: current } = await this.getCurrent(actor);
+    const memberships = await WorkspaceMember.find({ user: actor.id })
+      .populate<{ workspace: IWorkspace }>('workspace')
+      .sort({ createdAt: 1 });
+
+    return memberships
+      .filter(membership => membership.workspace)
+      .map(membership => ({
+        _id: membership.workspace._id,
+        name: membership.workspace.name,
+        isPersonal: membership.workspace.isPersonal,
+        role: membership.role,
+        current: membership.workspace._id.equals(current._id),
+        joinedAt: membership.createdAt
+      }))
+      .sort((a, b) => Number(b.isPersonal) - Number(a.isPersonal));
+  }
+
+  /**
+   * Create a team workspace owned by the user
+   */
+  static async create(userId: Types.ObjectId | string, name: unknown): Promise<IWorkspace> {
+    const workspace = await Workspace.create({ name: assertName(name), createdBy: userId });
+    await WorkspaceMember.create({ workspace: workspace._id, user: userId, role: 'owner' });
+    return workspace;
+  }
+
+  static async rename(workspace: IWorkspace, name: unknown): Promise<IWorkspace> {
+    workspace.name = assertName(name);
+    await workspace.save();
+    return workspace;
+  }
+
+  /**
+   * Delete an empty team workspace; projects, also those in the trash, have to be deleted first
+   */
+  static async delete(workspace: IWorkspace): Promise<void> {
+    if (workspace.isPersonal) {
+      throw new ErrorResponse('The personal workspace cannot be deleted', 400);
+    }
+
+    const projectCount = await Project.countDocuments({ workspace: workspace._id });
+    if (projectCount > 0) {
+      throw new ErrorResponse(
+        `Cannot delete workspace. It has ${projectCount} project(s), including any in the trash. Delete them permanently first.`,
+        409
+      );
+    }
+
+    await WorkspaceMember.deleteMany({ workspace: workspace._id });
+    await WorkspaceInvitation.deleteMany({ workspace: workspace._id });
+    await workspace.deleteOne();
+  }
+
+  /**
+   * Make the workspace the current one of the session
+   */
+  static async switchTo(workspaceId: string, actor: WorkspaceActor | undefined): Promise<WorkspaceAccess> {
+    const access = await this.authorize(workspaceId, actor, 'read');
+    if (!actor?.sessionId || !(await SessionService.setWorkspace(actor.id, actor.sessionId, access.workspace._id))) {
+      throw new ErrorResponse('Session not found', 401);
+    }
+    return access;
+  }
+
+  /**
+   * The owner followed by admins and members, in the order they joined
+   */
+  static async listMembers(workspaceId: Types.ObjectId | string): Promise<WorkspaceMemberSummary[]> {
+    const members = await WorkspaceMember.find({ workspace: workspaceId })
+      .populate<{ user: WorkspaceMemberSummary['user'] | null }>('user', 'name email profileImage')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return members
+      .flatMap(member => member.user ? [{ user: member.user, role: member.role, joinedAt: member.createdAt }] : [])
+      .sort((a, b) => WORKSPACE_ROLES.indexOf(a.role) - WORKSPACE_ROLES.indexOf(b.role));
+  }
+
+  /**
+   * Invite someone by email to a team workspace. They accept or decline after
+   * signing in (or signing up) with that email; the answer is the same whether
+   * or not the email belongs to an account.
+   */
+  static async invite(
+    workspace: IWorkspace,
+    email: unknown,
+    role: unknown,
+    invitedBy: Types.ObjectId | string
+  ): Promise<IWorkspaceInvitation> {
+    if (workspace.isPersonal) {
+      throw new ErrorResponse('Personal workspaces cannot be shared. Create a team workspace instead.', 400);
+    }
+
+    const normalizedEmail = typeof email === 'string' ? email.toLowerCase().trim() : '';
+    if (!EMAIL_REGEX.test(normalizedEmail)) {
+      throw new ErrorResponse('Please provide a valid email address', 400);
+    }
+    const memberRole = (role ?? 'member') as IWorkspaceInvitation['role'];
+    if (!WORKSPACE_INVITATION_ROLES.includes(memberRole)) {
+      throw new ErrorResponse(`Role must be one of ${WORKSPACE_INVITATION_ROLES.join(', ')}. Ownership is transferred to existing members.`, 400);
+    }
+
+    // Only members are reported, and those are listed to the inviter anyway
+    const invitee = await User.findOne({ email: normalizedEmail }).select('_id');
+    if (invitee && await WorkspaceMember.exists({ workspace: workspace._id, user: invitee._id })) {
+      throw new ErrorResponse('This user is already a member of the workspace', 409);
+    }
+
+    // An expired invitation no longer blocks a new one
+    await WorkspaceInvitation.updateMany(
+      { workspace: workspace._id, email: normalizedEmail, status: 'pending', expiresAt: { $lte: new Date() } },
+      { $set: { status: 'expired' } }
+    );
+    if (await WorkspaceInvitation.exists({ workspace: workspace._id, email: normalizedEmail, status: 'pending' })) {
+      throw new ErrorResponse('An invitation has already been sent to this email', 409);
+    }
+
+    const invitation = await WorkspaceInvitation.create({
+      workspace: workspace._id,
+      email: normalizedEmail,
+      role: memberRole,
+      invitedBy,
+      expiresAt: new Date(Date.now() + config.WORKSPACE_INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    const inviter = await User.findById(invitedBy).select('name').lean();
+    try {
+      await sendEmail({
+        to: normalizedEmail,
+        subject: `You have been invited to the workspace ${workspace.name}`,
+        html: `<p>${inviter?.name || 'A user'} invited you to join the workspace <b>${workspace.name}</b> as ${memberRole}.</p>`
+          + `<p>Sign in with this email address to accept or decline. The invitation expires on ${invitation.expiresAt.toISOString()}.</p>`
+      });
+    } catch (error) {
+      await invitation.deleteOne();
+      logger.error('Failed to send workspace invitation email:', error);
+      throw new ErrorResponse('Could not send the invitation email. Please try again later.', 502);
+    }
+
+    return invitation;
+  }
+
+  static async listInvitations(workspaceId: Types.ObjectId | string): Promise<IWorkspaceInvitation[]> {
+    return WorkspaceInvitation.find({ workspace: workspaceId, status: 'pending', expiresAt: { $gt: new Date() } })
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+  }
+
+  static async revokeInvitation(workspaceId: Types.ObjectId | string, invitationId: string): Promise<IWorkspaceInvitation> {
+    const invitation = Types.ObjectId.isValid(invitationId)
+      ? await WorkspaceInvitation.findOneAndUpdate(
+          { _id: invitationId, workspace: workspaceId, status: 'pending' },
+          { $set: { status: 'revoked', respondedAt: new Date() } },
+          { new: true }
+        )
+      : null;
+    if (!invitation) {
+      throw new ErrorResponse('Invitation not found', 404);
+    }
+    return invitation;
+  }
+
+  /**
+   * Open workspace invitations sent to the user's email
+   */
+  static async getInvitationsForUser(userId: Types.ObjectId | string): Promise<IWorkspaceInvitation[]> {
+    const user = await User.findById(userId).select('email');
+    if (!user) {
+      throw new ErrorResponse('User not found', 404);
+    }
+
+    return WorkspaceInvitation.find({ email: user.email, status: 'pending', expiresAt: { $gt: new Date() } })
+      .populate('workspace', 'name')
+      .populate('invitedBy', 'name email')
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Accept or decline an invitation sent to the user's email; accepting adds
+   * the user to the workspace with the invited role
+   */
+  static async respond(
+    invitationId: string,
+    userId: Types.ObjectId | string,
+    accept: boolean
+  ): Promise<IWorkspaceInvitation> {
+    const user = await User.findById(userId).select('email');
+    const invitation = user && Types.ObjectId.isValid(invitationId)
+      ? await WorkspaceInvitation.findOne({ _id: invitationId, email: user.email, status: 'pending' })
+      : null;
+    if (!user || !invitation) {
+      throw new ErrorResponse('Invitation not found', 404);
+    }
+
+    if (invitation.expiresAt.getTime() <= Date.now()) {
+      invitation.status = 'expired';
+      await invitation.save();
+      throw new ErrorResponse('This invitation has expired. Ask a workspace admin for a new one.', 410);
+    }
+
+    const workspace = await Workspace.findById(invitation.workspace);
+    if (!workspace) {
+      invitation.status = 'revoked';
+      await invitation.save();
+      throw new ErrorResponse('Workspace not found', 404);
+    }
+
+    if (accept) {
+      await WorkspaceMember.updateOne(
+        { workspace: workspace._id, user: user._id },
+        { $setOnInsert: { role: invitation.role, addedBy: invitation.invitedBy } },
+        { upsert: true }
+      );
+    }
+
+    invitation.status = accept ? 'accepted' : 'declined';
+    invitation.respondedAt = new Date();
+    await invitation.save();
+
+    DomainEventService.emit('workspace.invitationAnswered', {
+      invitation,
+      workspace,
+      userId: user._id,
+      accepted: accept
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Change a member's role. Granting `owner` hands the workspace over: the
+   * current owner becomes an admin.
+   */
+  static async updateMemberRole(
+    access: WorkspaceAccess,
+    memberUserId: string,
+    role: unknown,
+    actorId: Types.ObjectId | string
+  ): Promise<void> {
+    const { workspace } = access;
+    const newRole = assertRole(role);
+
+    const member = Types.ObjectId.isValid(memberUserId)
+      ? await WorkspaceMember.findOne({ workspace: workspace._id, user: memberUserId })
+      : null;
+    if (!member) {
+      throw new ErrorResponse('Member not found', 404);
+    }
+    if (member.role === newRole) {
+      return;
+    }
+    if (member.role === 'owner') {
+      throw new ErrorResponse('The owner keeps their role until they transfer ownership', 400);
+    }
+
+    if (newRole === 'owner') {
+      if (!this.can(access.role, 'own')) {
+        throw new ErrorResponse('Only the owner can transfer the workspace', 403);
+      }
+      if (workspace.isPersonal) {
+        throw new ErrorResponse('Personal workspaces cannot be transferred', 400);
+      }
+      await WorkspaceMember.updateOne({ workspace: workspace._id, user: actorId }, { $set: { role: 'admin' } });
+    }
+
+    member.role = newRole;
+    await member.save();
+  }
+
+  /**
+   * Remove a member, or let a member leave the workspace. Projects they created stay in the workspace.
+   */
+  static async removeMember(
+    workspace: IWorkspace,
+    memberUserId: string,
+    actorId: Types.ObjectId | string
+  ): Promise<void> {
+    const member = Types.ObjectId.isValid(memberUserId)
+      ? await WorkspaceMember.findOne({ workspace: workspace._id, user: memberUserId })
+      : null;
+    if (!member) {
+      throw new ErrorResponse('Member not found', 404);
+    }
+    if (member.role === 'owner') {
+      throw new ErrorResponse('The owner cannot leave the workspace. Transfer ownership first.', 400);
+    }
+
+    await member.deleteOne();
+
+    DomainEventService.emit('workspace.memberRemoved', { workspace, userId: member.user, actorId });
+  }
+
+  /**
+   * Take a user out of all workspaces before their account is deleted. Team
+   * workspaces they own pass to the longest-standing admin (or member), and their
+   * projects in remaining team workspaces pass to the workspace owner. Workspaces
+   * left without members are deleted.
+   */
+  static async releaseUser(userId: Types.ObjectId | string): Promise<WorkspaceReleaseSummary> {
+    const memberships = await WorkspaceMember.find({ user: userId })
+      .populate<{ workspace: IWorkspace }>('workspace');
+    const summary: WorkspaceReleaseSummary = { deletedWorkspaces: 0, transferredProjects: 0 };
+
+    for (const membership of memberships) {
+      const { workspace } = membership;
+      await membership.deleteOne();
+      if (!workspace) {
+        continue;
+      }
+
+      // The owner first, then admins before members, longest-standing first
+      const remaining = workspace.isPersonal
+        ? []
+        : await WorkspaceMember.find({ workspace: workspace._id }).sort({ createdAt: 1 });
+      const owner = remaining.sort((a, b) => WORKSPACE_ROLES.indexOf(a.role) - WORKSPACE_ROLES.indexOf(b.role))[0];
+
+      if (!owner) {
+        await WorkspaceInvitation.deleteMany({ workspace: workspace._id });
+        await workspace.deleteOne();
+        summary.deletedWorkspaces++;
+        continue;
+      }
+
+      if (owner.role !== 'owner') {
+        owner.role = 'owner';
+        await owner.save();
+      }
+
+      const transferred = await Project.updateMany(
+        { workspace: workspace._id, createdBy: userId },
+        { $set: { createdBy: owner.user } }
+      );
+      summary.transferredProjects += transferred.modifiedCount;
+    }
+
+    return summary;
+  }
+}
@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { config } from "../config/config";
+
+const GRAPH_API_URL = "https://graph.facebook.com/v19.0";
+
+export interface FacebookProfile {
+  facebookId: string;
+  email?: string; // missing when the account was created with a phone number
+  name?: string;
+  picture?: string;
+}
+
+export interface FacebookTokenVerifier {
+  verify(accessToken: string): Promise<FacebookProfile>;
+}
+
+/**
+ * Checks user access tokens against the Graph API: the token must be valid and
+ * issued for our app, then the profile is read with an appsecret_proof
+ */
+export class GraphFacebookVerifier implements FacebookTokenVerifier {
+  async verify(accessToken: string): Promise<FacebookProfile> {
+    if (!config.FACEBOOK_APP_ID || !config.FACEBOOK_APP_SECRET) {
+      throw new Error("Facebook login is not configured");
+    }
+
+    const appToken = `${config.FACEBOOK_APP_ID}|${config.FACEBOOK_APP_SECRET}`;
+    const debugResponse = await fetch(
+      `${GRAPH_API_URL}/debug_token?${new URLSearchParams({ input_token: accessToken, access_token: appToken })}`
+    );
+    const { data: debug } = await debugResponse.json() as {
+      data?: { is_valid?: boolean; app_id?: string; user_id?: string };
+    };
+
+    if (!debug?.is_valid || debug.app_id !== config.FACEBOOK_APP_ID || !debug.user_id) {
+      throw new Error("Invalid Facebook access token");
+    }
+
+    const appSecretProof = crypto
+      .createHmac("sha256", config.FACEBOOK_APP_SECRET)
+      .update(accessToken)
+      .digest("hex");
+    const profileResponse = await fetch(
+      `${GRAPH_API_URL}/me?${new URLSearchParams({
+        fields: "id,name,email,picture.type(large)",
+        access_token: accessToken,
+        appsecret_proof: appSecretProof,
+      })}`
+    );
+    const profile = await profileResponse.json() as {
+      id?: string;
+      name?: string;
+      email?: string;
+      picture?: { data?: { url?: string } };
+    };
+
+    if (!profileResponse.ok || profile.id !== debug.user_id) {
+      throw new Error("Invalid Facebook access token");
+    }
+
+    return {
+      facebookId: profile.id,
+      email: profile.email?.toLowerCase(),
+      name: profile.name,
+      picture: profile.picture?.data?.url,
+    };
+  }
+}
+
+/**
+ * In-memory verifier for local development and tests: only tokens added with
+ * `addToken` are accepted
+ */
+export class LocalFacebookVerifier implements FacebookTokenVerifier {
+  tokens = new Map<string, FacebookProfile>();
+
+  addToken(accessToken: string, profile: FacebookProfile): void {
+    this.tokens.set(accessToken, profile);
+  }
+
+  async verify(accessToken: string): Promise<FacebookProfile> {
+    const profile = this.tokens.get(accessToken);
+    if (!profile) {
+      throw new Error("Invalid Facebook access token");
+    }
+    return profile;
+  }
+
+  reset(): void {
+    this.tokens.clear();
+  }
+}
+
+let verifier: FacebookTokenVerifier | null = null;
+
+// Replace the active verifier (e.g. with a LocalFacebookVerifier in tests)
+export function setFacebookVerifier(replacement: FacebookTokenVerifier): void {
+  verifier = replacement;
+}
+
+export function getFacebookVerifier(): FacebookTokenVerifier {
+  if (!verifier) {
+    verifier = config.FACEBOOK_AUTH_PROVIDER === "local" ? new LocalFacebookVerifier() : new GraphFacebookVerifier();
+  }
+  return verifier;
+}
+
+export async function verifyFacebookToken(accessToken: string): Promise<FacebookProfile> {
+  return getFacebookVerifier().verify(accessToken);
+}
@@ -1,21 +1,98 @@
 import { OAuth2Client } from "google-auth-library";
+import { config } from "../config/config";
+import { ErrorResponse } from "./errorResponse";
 
-const client = new OAuth2Client("914626190076-hb3496enlino79uhhi9okc3liovs4qc2.apps.googleusercontent.com");
+export interface GoogleProfile {
+  googleId: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+  hostedDomain?: string; // Google Workspace domain (`hd` claim), missing for gmail.com accounts
+}
+
+export interface GoogleTokenVerifier {
+  verify(idToken: string): Promise<GoogleProfile>;
+}
+
+/**
+ * Checks ID tokens with Google's certificates. The token's audience must be one
+ * of the client IDs of our apps (web, iOS, Android) in GOOGLE_CLIENT_IDS.
+ */
+export class OAuthGoogleVerifier implements GoogleTokenVerifier {
+  private client = new OAuth2Client();
 
-export async function verifyGoogleToken(idToken: string) {
-  const ticket = await client.verifyIdToken({
-    idToken,
-    audience: "914626190076-hb3496enlino79uhhi9okc3liovs4qc2.apps.googleusercontent.com", // frontend se jo client ID hai wahi
-  });
-  const payload = ticket.getPayload();
-  if (!payload || !payload.email || !payload.sub) {
-    throw new Error("Invalid Google token payload");
+  async verify(idToken: string): Promise<GoogleProfile> {
+    if (config.GOOGLE_CLIENT_IDS.length === 0) {
+      throw new Error("Google login is not configured");
+    }
+
+    const ticket = await this.client.verifyIdToken({
+      idToken,
+      audience: config.GOOGLE_CLIENT_IDS,
+    });
+    const payload = ticket.getPayload();
+    if (!payload || !payload.email || !payload.sub) {
+      throw new Error("Invalid Google token payload");
+    }
+
+    return {
+      googleId: payload.sub,
+      email: payload.email,
+      emailVerified: payload.email_verified === true,
+      name: payload.name,
+      picture: payload.picture,
+      hostedDomain: payload.hd,
+    };
   }
-  console.log(payload)
-  return {
-    email: payload.email,
-    name: payload.name,
-    googleId: payload.sub,
-    picture: payload.picture,
-  };
+}
+
+/**
+ * In-memory verifier for local development and tests: only fake ID tokens added
+ * with `addToken` are accepted
+ */
+export class LocalGoogleVerifier implements GoogleTokenVerifier {
+  tokens = new Map<string, GoogleProfile>();
+
+  addToken(idToken: string, profile: GoogleProfile): void {
+    this.tokens.set(idToken, profile);
+  }
+
+  async verify(idToken: string): Promise<GoogleProfile> {
+    const profile = this.tokens.get(idToken);
+    if (!profile) {
+      throw new Error("Invalid Google token");
+    }
+    return profile;
+  }
+
+  reset(): void {
+    this.tokens.clear();
+  }
+}
+
+let verifier: GoogleTokenVerifier | null = null;
+
+// Replace the active verifier (e.g. with a LocalGoogleVerifier in tests)
+export function setGoogleVerifier(replacement: GoogleTokenVerifier): void {
+  verifier = replacement;
+}
+
+export function getGoogleVerifier(): GoogleTokenVerifier {
+  if (!verifier) {
+    verifier = config.GOOGLE_AUTH_PROVIDER === "local" ? new LocalGoogleVerifier() : new OAuthGoogleVerifier();
+  }
+  return verifier;
+}
+
+export async function verifyGoogleToken(idToken: string): Promise<GoogleProfile> {
+  const profile = await getGoogleVerifier().verify(idToken);
+
+  // With GOOGLE_HOSTED_DOMAINS set only Workspace accounts of those domains may sign in
+  const allowedDomains = config.GOOGLE_HOSTED_DOMAINS;
+  if (allowedDomains.length > 0 && !allowedDomains.includes((profile.hostedDomain || "").toLowerCase())) {
+    throw new ErrorResponse("This Google account is not part of an allowed organization", 403);
+  }
+
+  return profile;
 }
@@ -1,26 +1,37 @@
-import jwt, { JwtPayload } from "jsonwebtoken";
+import jwt, { JwtPayload, SignOptions } from "jsonwebtoken";
+import crypto from "crypto";
 import { Types } from "mongoose";
+import { config } from "../config/config";
 
 interface TokenPayload extends JwtPayload {
   id: Types.ObjectId | string;
   role: string;
+  sid: string; // session (refresh token family) id
 }
 
-export const generateToken = (payload: { id: Types.ObjectId | string, role: string }): string => {
-  const secretKey = process.env.JWT_SECRET || "default_secret_key_please_change_me_in_production"; 
-  
+interface ChallengeTokenPayload extends JwtPayload {
+  id: string;
+  authId: string;
+  purpose: "two_factor";
+}
+
+interface RefreshTokenPayload extends JwtPayload {
+  id: Types.ObjectId | string;
+  sid: string;
+}
+
+// Short-lived access token for the Authorization header
+export const generateToken = (payload: { id: Types.ObjectId | string, role: string, sid: string }): string => {
   return jwt.sign(
-    payload,     
-    secretKey,     
-    { expiresIn: "7d" }
+    payload,
+    config.ACCESS_TOKEN_SECRET,
+    { expiresIn: config.JWT_EXPIRES_IN as SignOptions["expiresIn"] }
   );
 };
 
 export const verifyToken = (token: string): Promise<TokenPayload> => {
   return new Promise((resolve, reject) => {
-    const secretKey = process.env.JWT_SECRET || "default_secret_key_please_change_me_in_production";
-    
-    jwt.verify(token, secretKey, (err, decoded) => {
+    jwt.verify(token, config.ACCESS_TOKEN_SECRET, (err, decoded) => {
       if (err) {
         reject(err);
       } else {
@@ -28,4 +39,56 @@ export const verifyToken = (token: string): Promise<TokenPayload> => {
       }
     });
   });
-};
\ No newline at end of file
+};
+
+// Long-lived refresh token; the random jti makes every rotated token unique
+export const generateRefreshToken = (payload: { id: Types.ObjectId | string, sid: string }): string => {
+  return jwt.sign(
+    { id: payload.id.toString(), sid: payload.sid },
+    config.REFRESH_TOKEN_SECRET,
+    {
+      expiresIn: config.REFRESH_EXPIRES_IN as SignOptions["expiresIn"],
+      jwtid: crypto.randomBytes(16).toString("hex")
+    }
+  );
+};
+
+export const verifyRefreshToken = (token: string): Promise<RefreshTokenPayload> => {
+  return new Promise((resolve, reject) => {
+    jwt.verify(token, config.REFRESH_TOKEN_SECRET, (err, decoded) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(decoded as RefreshTokenPayload);
+      }
+    });
+  });
+};
+
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Proves the password step of a login; only accepted by the 2FA verification endpoint
+// (it has no session id, so verifyTokenMiddleware rejects it)
+export const generateChallengeToken = (payload: { id: Types.ObjectId | string, authId: Types.ObjectId | string }): string => {
+  return jwt.sign(
+    { id: payload.id.toString(), authId: payload.authId.toString(), purpose: "two_factor" },
+    config.ACCESS_TOKEN_SECRET,
+    { expiresIn: "5m" }
+  );
+};
+
+export const verifyChallengeToken = (token: string): Promise<ChallengeTokenPayload> => {
+  return new Promise((resolve, reject) => {
+    jwt.verify(token, config.ACCESS_TOKEN_SECRET, (err, decoded) => {
+      const payload = decoded as ChallengeTokenPayload;
+      if (err) {
+        reject(err);
+      } else if (payload?.purpose !== "two_factor") {
+        reject(new Error("Invalid challenge token"));
+      } else {
+        resolve(payload);
+      }
+    });
+  });
+};
@@ -0,0 +1,26 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating cell content as a formula
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((column) => escapeCsvValue(column.header)).join(",")];
+  rows.forEach((row) => {
+    lines.push(columns.map((column) => escapeCsvValue(column.value(row))).join(","));
+  });
+  return lines.join("\r\n") + "\r\n";
+}
@@ -1,10 +1,12 @@
 // src/utils/errorResponse.ts
 export class ErrorResponse extends Error {
   statusCode: number;
+  errorCode?: string; // machine-readable code for clients, sent as `code`
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, errorCode?: string) {
     super(message);
     this.statusCode = statusCode;
+    this.errorCode = errorCode;
 
     // Ensure proper prototype chain
     Object.setPrototypeOf(this, ErrorResponse.prototype);
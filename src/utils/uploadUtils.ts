@@ -9,6 +9,8 @@ interface UploadResult {
 }
 
 
+type CloudinaryResourceType = "image" | "video" | "raw";
+
 const bufferToStream = (buffer: Buffer): Readable => {
   const readable = new Readable();
   readable.push(buffer);
@@ -44,9 +46,12 @@ const uploadFileToCloudinary = (
 };
 
 // ✅ Function to Delete File from Cloudinary
-const deleteFileFromCloudinary = async (publicId: string): Promise<string> => {
+const deleteFileFromCloudinary = async (
+  publicId: string,
+  resourceType: CloudinaryResourceType = "image"
+): Promise<string> => {
   try {
-    const result = await cloudinary.uploader.destroy(publicId);
+    const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
     return result.result;
   } catch (err) {
     throw new Error(
@@ -56,6 +61,22 @@ const deleteFileFromCloudinary = async (publicId: string): Promise<string> => {
 };
 
 
+// ✅ Public ID and resource type of a Cloudinary delivery URL, or null for other URLs
+// e.g. https://res.cloudinary.com/<cloud>/image/upload/v1712345678/images/receipt.jpg -> images/receipt
+const getCloudinaryAsset = (
+  url: string
+): { publicId: string; resourceType: CloudinaryResourceType } | null => {
+  const match = url.match(/res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:v\d+\/)?([^?#]+)/);
+  if (!match) {
+    return null;
+  }
+
+  const resourceType = match[1] as CloudinaryResourceType;
+  // Raw files keep their extension in the public ID, images and videos do not
+  const path = decodeURIComponent(match[2]);
+  return { publicId: resourceType === "raw" ? path : path.replace(/\.[^/.]+$/, ""), resourceType };
+};
+
 const uploadAdsToCloudinary = (
   buffer: Buffer,
   folder: string,
@@ -81,4 +102,4 @@ const uploadAdsToCloudinary = (
 };
 
 
-export { uploadFileToCloudinary, deleteFileFromCloudinary, uploadAdsToCloudinary };
+export { uploadFileToCloudinary, deleteFileFromCloudinary, getCloudinaryAsset, uploadAdsToCloudinary };